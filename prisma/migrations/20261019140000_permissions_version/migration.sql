@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "permissionsVersion" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "role" ADD COLUMN     "permissionsVersion" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "permission_roleId_moduleId_key" ON "permission"("roleId", "moduleId");
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "session" ADD COLUMN     "impersonatorId" TEXT;
+
+-- CreateTable
+CREATE TABLE "impersonation_log" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "reason" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "impersonation_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "impersonation_log_adminId_idx" ON "impersonation_log"("adminId");
+
+-- CreateIndex
+CREATE INDEX "impersonation_log_userId_idx" ON "impersonation_log"("userId");
+
+-- CreateIndex
+CREATE INDEX "impersonation_log_sessionId_idx" ON "impersonation_log"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "impersonation_log" ADD CONSTRAINT "impersonation_log_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "impersonation_log" ADD CONSTRAINT "impersonation_log_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "audit_event" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "impersonatorId" TEXT,
+    "action" TEXT NOT NULL,
+    "targetType" TEXT,
+    "targetId" TEXT,
+    "changes" JSONB,
+    "meta" JSONB,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "requestId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_event_actorId_idx" ON "audit_event"("actorId");
+
+-- CreateIndex
+CREATE INDEX "audit_event_targetType_targetId_idx" ON "audit_event"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "audit_event_action_idx" ON "audit_event"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_event_createdAt_idx" ON "audit_event"("createdAt");
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "VerificationType" ADD VALUE 'EMAIL_CHANGE';
+
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "pendingEmail" TEXT;
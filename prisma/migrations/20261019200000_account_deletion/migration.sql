@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "anonymisedAt" TIMESTAMP(3),
+ADD COLUMN     "deletionScheduledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "user_status_deletionScheduledAt_idx" ON "user"("status", "deletionScheduledAt");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "plan" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "plan_version" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "price" DECIMAL(10,2) NOT NULL,
+    "currency" "PlanCurrency" NOT NULL,
+    "features" JSONB NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "plan_version_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_version_planId_version_key" ON "plan_version"("planId", "version");
+
+-- AddForeignKey
+ALTER TABLE "plan_version" ADD CONSTRAINT "plan_version_planId_fkey" FOREIGN KEY ("planId") REFERENCES "plan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Snapshot the current terms of the existing plans as version 1
+INSERT INTO "plan_version" ("id", "planId", "version", "name", "description", "price", "currency", "features")
+SELECT md5(random()::text || "id"), "id", 1, "name", "description", "price", "currency", "features"
+FROM "plan";
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "CheckoutKind" AS ENUM ('SUBSCRIPTION', 'CREDITS');
+
+-- CreateEnum
+CREATE TYPE "CheckoutStatus" AS ENUM ('PENDING', 'COMPLETED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "subscription" ADD COLUMN     "providerSubscriptionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "checkout" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" "CheckoutKind" NOT NULL,
+    "planVersionId" TEXT,
+    "credits" INTEGER,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" "PlanCurrency" NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerSessionId" TEXT,
+    "status" "CheckoutStatus" NOT NULL DEFAULT 'PENDING',
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "checkout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_event" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "processedAt" TIMESTAMP(3),
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscription_providerSubscriptionId_key" ON "subscription"("providerSubscriptionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_providerSessionId_key" ON "checkout"("providerSessionId");
+
+-- CreateIndex
+CREATE INDEX "checkout_userId_idx" ON "checkout"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_event_provider_eventId_key" ON "payment_event"("provider", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "checkout" ADD CONSTRAINT "checkout_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checkout" ADD CONSTRAINT "checkout_planVersionId_fkey" FOREIGN KEY ("planVersionId") REFERENCES "plan_version"("id") ON DELETE SET NULL ON UPDATE CASCADE;
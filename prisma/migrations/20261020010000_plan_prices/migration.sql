@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "subscription" ADD COLUMN     "currency" "PlanCurrency",
+ADD COLUMN     "price" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "plan_price" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "currency" "PlanCurrency" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plan_price_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "exchange_rate" (
+    "currency" "PlanCurrency" NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "roundTo" DECIMAL(10,2) NOT NULL DEFAULT 0.01,
+    "priceEnding" DECIMAL(10,2),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rate_pkey" PRIMARY KEY ("currency")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_price_planId_currency_key" ON "plan_price"("planId", "currency");
+
+-- AddForeignKey
+ALTER TABLE "plan_price" ADD CONSTRAINT "plan_price_planId_fkey" FOREIGN KEY ("planId") REFERENCES "plan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
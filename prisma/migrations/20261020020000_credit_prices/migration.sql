@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "CreditPricingMode" AS ENUM ('FIXED', 'PER_ROW', 'PROVIDER_COST');
+
+-- AlterTable
+ALTER TABLE "usage_log" ADD COLUMN     "providerCost" DECIMAL(12,6);
+
+-- CreateTable
+CREATE TABLE "credit_price" (
+    "id" TEXT NOT NULL,
+    "tool" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "mode" "CreditPricingMode" NOT NULL DEFAULT 'FIXED',
+    "credits" INTEGER NOT NULL DEFAULT 0,
+    "creditsPerRow" DECIMAL(10,4),
+    "markup" DECIMAL(8,4),
+    "maxCredits" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_price_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "usage_log_tool_action_idx" ON "usage_log"("tool", "action");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_price_tool_action_key" ON "credit_price"("tool", "action");
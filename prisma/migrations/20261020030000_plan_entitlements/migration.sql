@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "plan" ADD COLUMN     "entitlements" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "plan_version" ADD COLUMN     "entitlements" JSONB NOT NULL DEFAULT '{}';
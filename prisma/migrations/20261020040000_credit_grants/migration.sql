@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "CreditGrantKind" AS ENUM ('ALLOWANCE', 'PROMO');
+
+-- AlterTable
+ALTER TABLE "subscription" ADD COLUMN     "allowanceGrantedFor" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "credit_grant" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" "CreditGrantKind" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "subscriptionId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_grant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_grant_userId_remaining_idx" ON "credit_grant"("userId", "remaining");
+
+-- CreateIndex
+CREATE INDEX "credit_grant_expiresAt_idx" ON "credit_grant"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "credit_grant" ADD CONSTRAINT "credit_grant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_grant" ADD CONSTRAINT "credit_grant_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "subscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,8 +1,24 @@
 import { prismaClient } from "../../src/lib/prismaClient";
+import { toPlanEntitlements, toPlanVersionData } from "../../src/services/plan.service";
 import { Prisma } from "../generated/prisma/client";
 
 const prisma = prismaClient;
 
+// Stored JSON comes back with its keys reordered, so compare with sorted keys
+const sortKeys = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(sortKeys)
+    : value && typeof value === "object"
+      ? Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+        )
+      : value;
+
+const isSameJson = (a: unknown, b: unknown) =>
+  JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+
 export async function seedPricing() {
   console.log("Seeding pricing plans...");
 
@@ -18,6 +34,16 @@ export async function seedPricing() {
         { label: "5GB storage" },
         { label: "Email support" },
       ],
+      entitlements: {
+        maxProjects: 3,
+        maxTrackedKeywords: 250,
+        monthlySeoLookups: 500,
+        maxWorkspaceMembers: 5,
+        allowedModules: null,
+        apiAccess: false,
+        monthlyCredits: 1000,
+        creditRolloverCap: 500,
+      },
     },
     {
       name: "Professional",
@@ -31,6 +57,16 @@ export async function seedPricing() {
         { label: "Priority email support" },
         { label: "API access", badge: "new" },
       ],
+      entitlements: {
+        maxProjects: 15,
+        maxTrackedKeywords: 2000,
+        monthlySeoLookups: 5000,
+        maxWorkspaceMembers: 20,
+        allowedModules: null,
+        apiAccess: true,
+        monthlyCredits: 5000,
+        creditRolloverCap: 2500,
+      },
     },
     {
       name: "Enterprise",
@@ -45,27 +81,73 @@ export async function seedPricing() {
         { label: "Advanced API access" },
         { label: "Custom integrations", badge: "enterprise" },
       ],
+      entitlements: {
+        maxProjects: null,
+        maxTrackedKeywords: null,
+        monthlySeoLookups: null,
+        maxWorkspaceMembers: null,
+        allowedModules: null,
+        apiAccess: true,
+        monthlyCredits: 20000,
+        creditRolloverCap: null,
+      },
     },
   ];
 
   for (const plan of plans) {
-    await prisma.plan.upsert({
+    const existing = await prisma.plan.findUnique({
       where: { name: plan.name },
-      update: {
-        description: plan.description,
-        price: plan.price,
-        currency: plan.currency as any,
-        features: plan.features,
-        isActive: true,
-      },
-      create: {
-        name: plan.name,
-        description: plan.description,
-        price: plan.price,
-        currency: plan.currency as any,
-        features: plan.features,
-        isActive: true,
-      },
+    });
+
+    if (!existing) {
+      await prisma.$transaction(async (tx) => {
+        const created = await tx.plan.create({
+          data: {
+            name: plan.name,
+            description: plan.description,
+            price: plan.price,
+            currency: plan.currency as any,
+            features: plan.features,
+            entitlements: plan.entitlements,
+            isActive: true,
+          },
+        });
+        await tx.planVersion.create({ data: toPlanVersionData(created) });
+      });
+      continue;
+    }
+
+    // Existing plans keep their status (an archived plan stays archived), and new terms get
+    // a new version like an edit through the admin API so subscribers keep theirs
+    const termsChanged =
+      !existing.price.equals(plan.price) ||
+      existing.currency !== plan.currency ||
+      !isSameJson(existing.features, plan.features) ||
+      !isSameJson(toPlanEntitlements(existing.entitlements), toPlanEntitlements(plan.entitlements));
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.plan.update({
+        where: { id: existing.id },
+        data: {
+          description: plan.description,
+          ...(termsChanged
+            ? {
+                price: plan.price,
+                currency: plan.currency as any,
+                features: plan.features,
+                entitlements: plan.entitlements,
+                version: { increment: 1 },
+              }
+            : {}),
+        },
+      });
+
+      // Make sure the current terms have a version snapshot
+      await tx.planVersion.upsert({
+        where: { planId_version: { planId: updated.id, version: updated.version } },
+        update: {},
+        create: toPlanVersionData(updated),
+      });
     });
   }
 
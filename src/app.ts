@@ -1,4 +1,4 @@
-import express, { type Express } from "express";
+import express, { type Express, type Request } from "express";
 import cors, { type CorsOptions } from "cors";
 import cookieParser from "cookie-parser";
 import "dotenv/config";
@@ -7,6 +7,7 @@ import { sendSuccess } from "./utils/response";
 import { centerlizedErrorHandler } from "./middlewares/centerlizedErrorHandler";
 import { requestLogger } from "./middlewares/requestLogger";
 import { logger } from "./utils/logger";
+import { parseTrustProxy } from "./utils/helperFunctions";
 
 const allowedOrigins = process.env.CORS_ORIGIN?.split(",") || [];
 
@@ -25,19 +26,37 @@ const corsOptions: CorsOptions = {
     return callback(new Error(`CORS policy error: Origin '${origin}' not allowed`));
   },
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "Cookie"],
+  allowedHeaders: [
+    "Content-Type",
+    "Authorization",
+    "Cookie",
+    "X-API-Key",
+    "X-Auth-Mode",
+    "X-Refresh-Token",
+    "X-Workspace-Id",
+  ],
   exposedHeaders: ["Set-Cookie"],
   credentials: true,
 };
 
 export const app: Express = express();
 
+// Behind a load balancer req.ip is the client address only when the proxy is trusted
+app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
+
 // Request logging middleware (should be early in the middleware chain)
 app.use(requestLogger);
 
 app.use(cookieParser());
 app.use(cors(corsOptions));
-app.use(express.json());
+app.use(
+  express.json({
+    // Payment webhooks are signed over the exact bytes that were sent
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    },
+  })
+);
 
 app.get("/", (_, res) => {
   return res.status(200).json({
@@ -1,12 +1,375 @@
 import { type Request, type Response } from "express";
 import { prismaClient } from "@/lib/prismaClient";
 import { sendError, sendSuccess } from "@/utils/response";
+import { accountThrottleKey, clearLoginFailures } from "@/services/loginThrottle.service";
+import { bumpUserPermissionsVersion, resolveUserAccess } from "@/services/permission.service";
+import { recordAuditEvent } from "@/services/audit.service";
+import { scheduleAccountDeletion } from "@/services/accountDeletion.service";
+import { grantPromoCredits } from "@/services/creditGrant.service";
+import { parseCursorPagination, toCursorPage } from "@/utils/helperFunctions";
+import type { UserStatus } from "prisma/generated/prisma/enums";
+import type { UserSelect, UserWhereInput } from "prisma/generated/prisma/models";
 
+const USER_STATUSES: UserStatus[] = ["ACTIVE", "SUSPENDED", "DELETED"];
+
+const adminUserSelect = {
+  id: true,
+  email: true,
+  emailVerified: true,
+  name: true,
+  avatarUrl: true,
+  credits: true,
+  status: true,
+  statusReason: true,
+  statusChangedAt: true,
+  deletionScheduledAt: true,
+  anonymisedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  role: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies UserSelect;
+
+/**
+ * Search users by email/name, status and role with cursor pagination
+ * GET /api/admin/user/get-all-users?search=&status=&roleId=&cursor=&limit=
+ */
 export const getAllUsers = async (req: Request, res: Response) => {
   try {
-    const allUsers = await prismaClient?.user?.findMany();
+    const { limit, cursor } = parseCursorPagination(req);
+    const { search, status, roleId } = req.query;
+
+    if (status && !USER_STATUSES.includes(status as UserStatus)) {
+      return sendError(res, 400, `status must be one of ${USER_STATUSES.join(", ")}`);
+    }
+
+    const where: UserWhereInput = {
+      ...(typeof search === "string" && search.trim()
+        ? {
+            OR: [
+              { email: { contains: search.trim(), mode: "insensitive" } },
+              { name: { contains: search.trim(), mode: "insensitive" } },
+            ],
+          }
+        : {}),
+      ...(status ? { status: status as UserStatus } : {}),
+      ...(typeof roleId === "string" && roleId ? { roleId } : {}),
+    };
+
+    const users = await prismaClient?.user?.findMany({
+      where,
+      select: adminUserSelect,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    return sendSuccess(res, toCursorPage(users || [], limit), "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Single user details
+ * GET /api/admin/user/:userId
+ */
+export const getUser = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req?.params;
+    if (!userId) {
+      return sendError(res, 400, "userId is required");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        ...adminUserSelect,
+        accounts: {
+          select: {
+            provider: true,
+            createdAt: true,
+          },
+        },
+        _count: {
+          select: {
+            sessions: true,
+            projects: true,
+            apiKeys: true,
+          },
+        },
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+
+    return sendSuccess(res, user, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Usage history of a user
+ * GET /api/admin/user/:userId/usage?cursor=&limit=
+ */
+export const getUserUsage = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req?.params;
+    if (!userId) {
+      return sendError(res, 400, "userId is required");
+    }
+    const { limit, cursor } = parseCursorPagination(req);
+
+    const usageLogs = await prismaClient?.usageLog?.findMany({
+      where: {
+        userId,
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    return sendSuccess(res, toCursorPage(usageLogs || [], limit), "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Credit transaction history of a user
+ * GET /api/admin/user/:userId/credit-transactions?cursor=&limit=
+ */
+export const getUserCreditTransactions = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req?.params;
+    if (!userId) {
+      return sendError(res, 400, "userId is required");
+    }
+    const { limit, cursor } = parseCursorPagination(req);
+
+    const creditTransactions = await prismaClient?.creditTransaction?.findMany({
+      where: {
+        userId,
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    return sendSuccess(res, toCursorPage(creditTransactions || [], limit), "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Give a user promo credits, spent before their other credits and removed once expired.
+ * Admins only, and never to their own account.
+ * POST /api/admin/user/:userId/credit-grants
+ */
+export const grantUserCredits = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req?.params;
+    if (!userId) {
+      return sendError(res, 400, "userId is required");
+    }
+
+    const { amount, expiresAt, reason } = req.body;
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return sendError(res, 400, "amount must be a positive integer");
+    }
+    const expiryDate = expiresAt ? new Date(expiresAt) : null;
+    if (expiryDate && (isNaN(expiryDate.getTime()) || expiryDate.getTime() <= Date.now())) {
+      return sendError(res, 400, "expiresAt must be a date in the future");
+    }
+    if (reason !== undefined && reason !== null && typeof reason !== "string") {
+      return sendError(res, 400, "reason must be a string");
+    }
+    if (userId === req?.userId) {
+      return sendError(res, 400, "You can't grant credits to your own account");
+    }
+
+    // Granting credits mints money, so Billing:canCreate alone is not enough
+    const requester = req?.userId ? await resolveUserAccess(req.userId) : null;
+    if (requester?.roleName !== "admin") {
+      return sendError(res, 403, "Only admins can grant credits");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+        anonymisedAt: null,
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+
+    const grant = await grantPromoCredits({
+      userId,
+      amount,
+      expiresAt: expiryDate,
+      reason: reason?.trim(),
+    });
+
+    await recordAuditEvent(req, {
+      action: "user.credits_granted",
+      actorId: req.userId,
+      targetType: "user",
+      targetId: userId,
+      meta: {
+        creditGrantId: grant?.id,
+        amount,
+        expiresAt: expiryDate,
+        reason: reason?.trim() || null,
+      },
+    });
+
+    return sendSuccess(res, grant, "Credits granted successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Suspend, reactivate or soft-delete a user. The optional reason is shown on login.
+ * PUT /api/admin/user/:userId/status
+ */
+export const updateUserStatus = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req?.params;
+    const { status, reason } = req.body;
+    if (!userId) {
+      return sendError(res, 400, "userId is required");
+    }
+    if (!USER_STATUSES.includes(status)) {
+      return sendError(res, 400, `status must be one of ${USER_STATUSES.join(", ")}`);
+    }
+    if (reason !== undefined && reason !== null && typeof reason !== "string") {
+      return sendError(res, 400, "reason must be a string");
+    }
+    if (userId === req?.userId) {
+      return sendError(res, 400, "You can't change the status of your own account");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      include: {
+        role: true,
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+    if (user.anonymisedAt) {
+      return sendError(res, 400, "Anonymised accounts can't be changed");
+    }
+
+    // Only admins can suspend, ban or delete an admin
+    if (user.role?.name === "admin") {
+      const requester = req?.userId ? await resolveUserAccess(req.userId) : null;
+      if (requester?.roleName !== "admin") {
+        return sendError(res, 403, "Only admins can change the status of an admin");
+      }
+    }
+
+    // Never leave the platform without an active admin
+    if (user.role?.name === "admin" && user.status === "ACTIVE" && status !== "ACTIVE") {
+      const activeAdmins = await prismaClient?.user?.count({
+        where: {
+          roleId: user.roleId,
+          status: "ACTIVE",
+        },
+      });
+      if ((activeAdmins || 0) <= 1) {
+        return sendError(res, 400, "Can't deactivate the last active admin");
+      }
+    }
+
+    if (status === "DELETED") {
+      // Same teardown as a self-service deletion: sessions, API keys and renewals end and
+      // the anonymisation grace period starts
+      await scheduleAccountDeletion(userId, reason?.trim() || null, user.deletionScheduledAt);
+    } else {
+      await prismaClient?.$transaction([
+        prismaClient?.user?.update({
+          where: {
+            id: userId,
+          },
+          data: {
+            status,
+            statusReason: status === "ACTIVE" ? null : reason?.trim() || null,
+            statusChangedAt: new Date(),
+            // Any status but DELETED cancels a scheduled anonymisation
+            deletionScheduledAt: null,
+          },
+        }),
+        // A deactivated user is logged out everywhere
+        ...(status !== "ACTIVE"
+          ? [
+              prismaClient?.session?.deleteMany({
+                where: {
+                  userId,
+                },
+              }),
+            ]
+          : []),
+      ]);
+      await bumpUserPermissionsVersion(userId);
+    }
+
+    await recordAuditEvent(req, {
+      action: "user.status_changed",
+      targetType: "user",
+      targetId: userId,
+      before: { status: user.status, statusReason: user.statusReason },
+      after: { status, statusReason: status === "ACTIVE" ? null : reason?.trim() || null },
+    });
+
+    return sendSuccess(res, null, "User status updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+export const unlockUser = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req?.params;
+    if (!userId) {
+      return sendError(res, 400, "userId is required");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        id: true,
+        email: true,
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+    if (!user.email) {
+      return sendSuccess(res, null, "User unlocked successfully");
+    }
+
+    await clearLoginFailures([accountThrottleKey(user.email)]);
+
+    await recordAuditEvent(req, { action: "user.unlocked", targetType: "user", targetId: user.id });
 
-    return sendSuccess(res, allUsers, "ok");
+    return sendSuccess(res, null, "User unlocked successfully");
   } catch (error) {
     return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
   }
@@ -0,0 +1,170 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { generateApiKey, hashApiKey } from "@/utils/apiKeyUtils";
+import { recordAuditEvent } from "@/services/audit.service";
+import type { ApiKeySelect } from "prisma/generated/prisma/models";
+
+const MAX_API_KEYS_PER_USER = 20;
+
+// Never expose the key hash
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies ApiKeySelect;
+
+/**
+ * Create a personal API key - the plain key is only returned once
+ * POST /api/user/api-keys
+ */
+export const createApiKey = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { name, scopes, expiresAt } = req.body;
+    if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+      return sendError(res, 400, "Name and scopes are required");
+    }
+
+    const uniqueScopes = [...new Set<string>(scopes.map(String))];
+    const modules = await prismaClient?.module?.findMany({
+      where: {
+        name: { in: uniqueScopes },
+      },
+      select: {
+        name: true,
+      },
+    });
+    const unknownScopes = uniqueScopes.filter(
+      (scope) => !modules?.some((module) => module.name === scope)
+    );
+    if (unknownScopes.length > 0) {
+      return sendError(res, 400, `Unknown scopes: ${unknownScopes.join(", ")}`);
+    }
+
+    let expiryDate: Date | null = null;
+    if (expiresAt) {
+      expiryDate = new Date(expiresAt);
+      if (isNaN(expiryDate.getTime()) || expiryDate.getTime() <= Date.now()) {
+        return sendError(res, 400, "expiresAt must be a future date");
+      }
+    }
+
+    const activeKeys = await prismaClient?.apiKey?.count({
+      where: {
+        userId,
+        revokedAt: null,
+      },
+    });
+    if ((activeKeys || 0) >= MAX_API_KEYS_PER_USER) {
+      return sendError(res, 409, `You can have at most ${MAX_API_KEYS_PER_USER} active API keys`);
+    }
+
+    const { key, prefix } = generateApiKey();
+
+    const apiKey = await prismaClient?.apiKey?.create({
+      data: {
+        userId,
+        name: String(name),
+        prefix,
+        keyHash: hashApiKey(key),
+        scopes: uniqueScopes,
+        expiresAt: expiryDate,
+      },
+      select: apiKeySelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "api_key.created",
+      targetType: "api_key",
+      targetId: apiKey?.id,
+      after: { name: apiKey?.name, scopes: apiKey?.scopes, expiresAt: apiKey?.expiresAt },
+    });
+
+    return sendSuccess(
+      res,
+      { ...apiKey, key },
+      "API key created. Copy it now, it won't be shown again"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * List the user's API keys
+ * GET /api/user/api-keys
+ */
+export const getAllApiKeys = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const apiKeys = await prismaClient?.apiKey?.findMany({
+      where: {
+        userId,
+      },
+      select: apiKeySelect,
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    return sendSuccess(res, apiKeys, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Revoke an API key
+ * DELETE /api/user/api-keys/:apiKeyId
+ */
+export const revokeApiKey = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { apiKeyId } = req.params;
+    if (!apiKeyId) {
+      return sendError(res, 400, "apiKeyId is required");
+    }
+
+    const revoked = await prismaClient?.apiKey?.updateMany({
+      where: {
+        id: apiKeyId,
+        userId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+    if (!revoked?.count) {
+      return sendError(res, 404, "API key not found");
+    }
+
+    await recordAuditEvent(req, {
+      action: "api_key.revoked",
+      targetType: "api_key",
+      targetId: apiKeyId,
+    });
+
+    return sendSuccess(res, null, "API key revoked successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
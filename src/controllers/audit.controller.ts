@@ -0,0 +1,52 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { parseCursorPagination, toCursorPage } from "@/utils/helperFunctions";
+import type { AuditEventWhereInput } from "prisma/generated/prisma/models";
+
+/**
+ * Query the audit trail
+ * GET /api/admin/audit-events?actorId=&targetType=&targetId=&action=&requestId=&from=&to=&cursor=&limit=
+ */
+export const getAuditEvents = async (req: Request, res: Response) => {
+  try {
+    const { limit, cursor } = parseCursorPagination(req, 50, 200);
+    const { actorId, targetType, targetId, action, requestId, from, to } = req.query;
+
+    const fromDate = typeof from === "string" && from ? new Date(from) : undefined;
+    const toDate = typeof to === "string" && to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return sendError(res, 400, "from and to must be valid dates");
+    }
+
+    const where: AuditEventWhereInput = {
+      ...(typeof actorId === "string" && actorId ? { actorId } : {}),
+      ...(typeof targetType === "string" && targetType ? { targetType } : {}),
+      ...(typeof targetId === "string" && targetId ? { targetId } : {}),
+      // `action=auth.` matches every auth event
+      ...(typeof action === "string" && action
+        ? { action: action.endsWith(".") ? { startsWith: action } : action }
+        : {}),
+      ...(typeof requestId === "string" && requestId ? { requestId } : {}),
+      ...(fromDate || toDate
+        ? {
+            createdAt: {
+              ...(fromDate ? { gte: fromDate } : {}),
+              ...(toDate ? { lte: toDate } : {}),
+            },
+          }
+        : {}),
+    };
+
+    const events = await prismaClient?.auditEvent?.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    return sendSuccess(res, toCursorPage(events || [], limit), "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
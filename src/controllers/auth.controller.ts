@@ -1,20 +1,54 @@
+import { randomUUID } from "crypto";
 import { type Request, type Response } from "express";
 import { sendError, sendSuccess } from "@/utils/response";
-import { hashPassword, verifyPassword } from "@/utils/passwordUtils";
-import { parseTimeString } from "@/utils/helperFunctions";
-import { createToken } from "@/utils/tokenUtils";
+import {
+  hashPassword,
+  validatePassword,
+  verifyDummyPassword,
+  verifyPassword,
+} from "@/utils/passwordUtils";
+import { createToken, verifyToken } from "@/utils/tokenUtils";
 import { prismaClient } from "@/lib/prismaClient";
-import { encryptData } from "@/utils/encryptDecryptPayload";
-import type { UserGetPayload, UserSelect } from "prisma/generated/prisma/models";
-
-const userSelect = {
+import {
+  clearAuthCookies,
+  createUserSession,
+  handleRefreshTokenReuse,
+  isBearerAuthMode,
+  rotateSessionToken,
+  setAuthCookies,
+} from "@/services/session.service";
+import { consumeVerificationToken, issueVerificationToken } from "@/utils/verificationTokenUtils";
+import { mailService } from "@/lib/mailer";
+import { buildClientUrl, emailVerificationMail, passwordResetMail } from "@/utils/mailTemplates";
+import { logger } from "@/utils/logger";
+import { extractIpAddress } from "@/utils/helperFunctions";
+import {
+  accountThrottleKey,
+  checkLoginThrottle,
+  clearLoginFailures,
+  ipThrottleKey,
+  recordLoginFailure,
+  twoFactorThrottleKey,
+} from "@/services/loginThrottle.service";
+import { isTwoFactorEnabled, verifySecondFactor } from "@/services/twoFactor.service";
+import { getEmailVerificationPolicy } from "@/middlewares/checkEmailVerified";
+import { recordAuditEvent } from "@/services/audit.service";
+import { forgetUserSessions } from "@/services/permission.service";
+import type { SessionSelect, UserGetPayload, UserSelect } from "prisma/generated/prisma/models";
+
+export const userSelect = {
   id: true,
   email: true,
   emailVerified: true,
   name: true,
   avatarUrl: true,
   status: true,
-  accounts: true,
+  statusReason: true,
+  accounts: {
+    where: {
+      provider: "EMAIL",
+    },
+  },
   role: {
     select: {
       name: true,
@@ -36,10 +70,54 @@ const userSelect = {
   },
 } satisfies UserSelect;
 
+// Never expose the refresh token itself
+const sessionSelect = {
+  id: true,
+  ipAddress: true,
+  userAgent: true,
+  lastUsedAt: true,
+  createdAt: true,
+  expiresAt: true,
+} satisfies SessionSelect;
+
 export type CheckUserType = UserGetPayload<{
   select: typeof userSelect;
 }>;
 
+// Message shown for suspended and deleted accounts, including the reason given by an admin
+const getAccountStatusError = (user: { status: string; statusReason?: string | null }) => {
+  const reason = user?.statusReason ? ` Reason: ${user.statusReason}.` : "";
+  if (user?.status === "SUSPENDED") {
+    return `This account is suspended.${reason} Please check your email or contact support for more information.`;
+  }
+  if (user?.status === "DELETED") {
+    return `This account is deleted.${reason} Please contact support for more information.`;
+  }
+  return null;
+};
+
+/**
+ * Who may log in: active accounts, and only verified emails with the `block_login` policy.
+ * Checked on every path that ends in a new session (password, 2FA and OAuth).
+ */
+export const getLoginPolicyError = (user: {
+  status: string;
+  statusReason?: string | null;
+  emailVerified?: boolean | null;
+}) => {
+  const statusError = getAccountStatusError(user);
+  if (statusError) {
+    return { code: `account_${user.status.toLowerCase()}`, message: statusError };
+  }
+  if (getEmailVerificationPolicy() === "block_login" && !user.emailVerified) {
+    return {
+      code: "email_not_verified",
+      message: "Please verify your email address before logging in",
+    };
+  }
+  return null;
+};
+
 const checkUser = async (req: Request) => {
   const userId = req?.userId;
   if (!userId) {
@@ -50,59 +128,44 @@ const checkUser = async (req: Request) => {
     where: {
       id: userId,
     },
-    select: {
-      id: true,
-      email: true,
-      emailVerified: true,
-      name: true,
-      avatarUrl: true,
-      status: true,
-      accounts: {
-        where: {
-          provider: "EMAIL",
-        },
-      },
-      role: {
-        select: {
-          name: true,
-          permissions: {
-            select: {
-              canReadList: true,
-              canReadSingle: true,
-              canCreate: true,
-              canUpdate: true,
-              canDelete: true,
-              module: {
-                select: {
-                  name: true,
-                },
-              },
-            },
-          },
-        },
-      },
-    },
+    select: userSelect,
   });
   if (!checkUser) {
     return { success: false, code: 404, error: "User not found" };
   }
-  if (checkUser?.status === "SUSPENDED") {
-    return {
-      success: false,
-      code: 403,
-      error:
-        "This account is suspended. Please check your email or contact support for more information.",
-    };
+  const statusError = getAccountStatusError(checkUser);
+  if (statusError) {
+    return { success: false, code: 403, error: statusError };
   }
-  if (checkUser?.status === "DELETED") {
+
+  return { success: true, code: 200, data: checkUser };
+};
+
+const sendVerificationEmail = async (user: { id: string; email: string; name?: string | null }) => {
+  const verificationToken = await issueVerificationToken({
+    userId: user.id,
+    email: user.email,
+    type: "EMAIL_VERIFY",
+  });
+  if (!verificationToken?.success || !verificationToken?.data) {
     return {
       success: false,
-      code: 403,
-      error: "This account is deleted. Please contact support for more information.",
+      error: verificationToken?.error || "Error while creating verification token",
     };
   }
 
-  return { success: true, code: 200, data: checkUser };
+  await mailService.send(
+    emailVerificationMail({
+      to: user.email,
+      name: user.name,
+      url: buildClientUrl(
+        `/auth/verify-email?token=${encodeURIComponent(verificationToken.data.token)}`
+      ),
+      expiresAt: verificationToken.data.expiresAt,
+    })
+  );
+
+  return { success: true };
 };
 
 export const register = async (req: Request, res: Response) => {
@@ -156,12 +219,50 @@ export const register = async (req: Request, res: Response) => {
       return sendError(res, 400, "ERROR while registering new user");
     }
 
-    return sendSuccess(res, null, "Registered successfully");
+    try {
+      await sendVerificationEmail({ id: response.id, email, name });
+    } catch (error) {
+      logger.error("Verification mail failed", { userId: response.id });
+    }
+
+    return sendSuccess(
+      res,
+      null,
+      "Registered successfully. Please check your email to verify your account"
+    );
   } catch (error) {
     return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
   }
 };
 
+// Create the session, set the cookies and send the login response
+const completeLogin = async (req: Request, res: Response, user: CheckUserType) => {
+  const session = await createUserSession(req, res, user);
+  if (!session?.success || !session?.data) {
+    return sendError(res, 401, session?.error || "Error while creating tokens");
+  }
+
+  await recordAuditEvent(req, {
+    action: "auth.login",
+    actorId: user?.id,
+    targetType: "session",
+    targetId: session.data.sessionId,
+  });
+
+  const responsePayload = {
+    userId: user?.id,
+    name: user?.name || "",
+    email: user?.email,
+    avatarUrl: user?.avatarUrl,
+    emailVerified: user?.emailVerified,
+    access_token: session.data.accessToken,
+    // The refresh token stays in its httpOnly cookie unless the client asked for bearer tokens
+    ...(isBearerAuthMode(req) ? { refresh_token: session.data.refreshToken } : {}),
+  };
+
+  return sendSuccess(res, responsePayload, "Successfully logged in");
+};
+
 export const login = async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
@@ -169,6 +270,18 @@ export const login = async (req: Request, res: Response) => {
       return sendError(res, 400, "Email and password are required");
     }
 
+    const throttleKeys = [accountThrottleKey(email), ipThrottleKey(extractIpAddress(req))];
+    const throttle = await checkLoginThrottle(throttleKeys);
+    if (!throttle?.allowed) {
+      const retryAfterSeconds = Math.ceil(throttle.retryAfterMs / 1000);
+      res.setHeader("Retry-After", retryAfterSeconds);
+      return sendError(
+        res,
+        429,
+        `Too many failed login attempts. Please try again in ${retryAfterSeconds} seconds`
+      );
+    }
+
     const checkUser = await prismaClient?.user?.findFirst({
       where: {
         email,
@@ -176,86 +289,100 @@ export const login = async (req: Request, res: Response) => {
       select: userSelect,
     });
 
-    if (!checkUser) {
-      return sendError(res, 404, "Email address not found");
+    // Unknown emails and wrong passwords are indistinguishable (same message and timing)
+    const passwordHash = checkUser?.accounts?.[0]?.passwordHash;
+    const checkPassword = passwordHash
+      ? await verifyPassword(passwordHash, password)
+      : await verifyDummyPassword(password);
+    if (!checkUser || !checkPassword) {
+      await recordLoginFailure(throttleKeys);
+      await recordAuditEvent(req, {
+        action: "auth.login_failed",
+        actorId: checkUser?.id || null,
+        meta: { email },
+      });
+      return sendError(res, 401, "Invalid email or password");
     }
 
-    if (checkUser?.status === "SUSPENDED") {
-      return sendError(
-        res,
-        403,
-        "This account is suspended. Please check your email or contact support for more information."
-      );
+    await clearLoginFailures([accountThrottleKey(email)]);
+
+    const policyError = getLoginPolicyError(checkUser);
+    if (policyError) {
+      return sendError(res, 403, policyError.message);
     }
-    if (checkUser?.status === "DELETED") {
-      return sendError(
+
+    // With 2FA enabled the password step only yields a short-lived challenge token
+    if (await isTwoFactorEnabled(checkUser.id)) {
+      const challengeToken = await createToken(
+        { userId: checkUser.id, purpose: "two_factor_login" },
+        "two_factor"
+      );
+      if (!challengeToken?.success || !challengeToken?.data) {
+        return sendError(res, 401, challengeToken?.error || "Error while creating tokens");
+      }
+
+      return sendSuccess(
         res,
-        403,
-        "This account is deleted. Please contact support for more information."
+        { twoFactorRequired: true, challengeToken: challengeToken.data },
+        "Two-factor authentication required"
       );
     }
 
-    const checkPassword = verifyPassword(checkUser?.accounts?.[0]?.passwordHash || "", password);
-    if (!checkPassword) {
-      return sendError(res, 401, "Invalid password");
+    return completeLogin(req, res, checkUser);
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+export const loginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return sendError(res, 400, "Challenge token and code or recovery code are required");
     }
 
-    const payload = {
-      userId: checkUser?.id,
-      email: checkUser?.email,
-    };
-    const access_token = await createToken(payload, "access_token");
-    const refresh_token = await createToken(payload, "refresh_token");
+    const challenge = await verifyToken(challengeToken, "two_factor");
+    if (!challenge?.success || challenge?.data?.purpose !== "two_factor_login") {
+      return sendError(res, 401, "Invalid or expired challenge token");
+    }
 
-    if (!access_token?.success || !refresh_token?.success) {
-      return sendError(res, 401, "Error while creating tokens");
+    const userId = challenge.data.userId;
+    const throttleKeys = [twoFactorThrottleKey(userId), ipThrottleKey(extractIpAddress(req))];
+    const throttle = await checkLoginThrottle(throttleKeys);
+    if (!throttle?.allowed) {
+      const retryAfterSeconds = Math.ceil(throttle.retryAfterMs / 1000);
+      res.setHeader("Retry-After", retryAfterSeconds);
+      return sendError(
+        res,
+        429,
+        `Too many failed attempts. Please try again in ${retryAfterSeconds} seconds`
+      );
     }
 
-    const accessExpiryMs = parseTimeString(process.env.ACCESS_TOKEN_EXPIRY || "1h");
-    const refreshExpiryMs = parseTimeString(process.env.REFRESH_TOKEN_EXPIRY || "30d");
+    if (!(await verifySecondFactor(userId, { code, recoveryCode }))) {
+      await recordLoginFailure(throttleKeys);
+      await recordAuditEvent(req, { action: "auth.2fa_failed", actorId: userId });
+      return sendError(res, 401, "Invalid two-factor code");
+    }
 
-    const refreshTokenExpiry = new Date(Date.now() + refreshExpiryMs);
+    await clearLoginFailures([twoFactorThrottleKey(userId)]);
 
-    await prismaClient?.session?.create({
-      data: {
-        userId: checkUser?.id,
-        token: refresh_token?.data || "",
-        expiresAt: refreshTokenExpiry,
+    const checkUser = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
       },
+      select: userSelect,
     });
+    if (!checkUser) {
+      return sendError(res, 404, "User not found");
+    }
+    // The account may have been suspended or deleted since the password step
+    const policyError = getLoginPolicyError(checkUser);
+    if (policyError) {
+      return sendError(res, 403, policyError.message);
+    }
 
-    const encryptedUserData = await encryptData(checkUser);
-    res.cookie("access_token", access_token?.data, {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      maxAge: accessExpiryMs,
-      path: "/",
-    });
-    res.cookie("refresh_token", refresh_token?.data, {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      maxAge: refreshExpiryMs,
-      path: "/",
-    });
-    res.cookie("user_data", encryptedUserData, {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      maxAge: refreshExpiryMs,
-      path: "/",
-    });
-
-    const responsePayload = {
-      userId: checkUser?.id,
-      name: checkUser?.name || "",
-      email: checkUser?.email,
-      avatarUrl: checkUser?.avatarUrl,
-      access_token: access_token?.data,
-    };
-
-    return sendSuccess(res, responsePayload, "Successfully logged in");
+    return completeLogin(req, res, checkUser);
   } catch (error) {
     return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
   }
@@ -268,7 +395,7 @@ export const logout = async (req: Request, res: Response) => {
       return sendError(res, 400, checkUserError || "Unknown error");
     }
 
-    const refreshToken = req.cookies.refresh_token;
+    const refreshToken = req.refreshToken;
     if (!refreshToken) {
       return sendError(res, 401, "Unauthorized");
     }
@@ -278,25 +405,13 @@ export const logout = async (req: Request, res: Response) => {
         token: refreshToken,
       },
     });
+    if (req.userId) {
+      forgetUserSessions(req.userId);
+    }
 
-    res.clearCookie("access_token", {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      path: "/",
-    });
-    res.clearCookie("refresh_token", {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      path: "/",
-    });
-    res.clearCookie("user_data", {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      path: "/",
-    });
+    clearAuthCookies(res);
+
+    await recordAuditEvent(req, { action: "auth.logout" });
 
     return sendSuccess(res, null, "User logged out successfully");
   } catch (error) {
@@ -311,298 +426,428 @@ export const renewToken = async (req: Request, res: Response) => {
       data: checkUserData,
       error: checkUserError,
     } = await checkUser(req);
-    if (!checkUserSuccess) {
+    if (!checkUserSuccess || !checkUserData) {
       return sendError(res, 400, checkUserError || "Unknown error");
     }
 
-    const refreshToken = req.cookies.refresh_token;
+    const refreshToken = req.refreshToken;
     if (!refreshToken) {
       return sendError(res, 401, "Unauthorized");
     }
 
-    const payload = {
-      userId: checkUserData?.id,
-      email: checkUserData?.email,
-    };
-    const access_token = await createToken(payload, "access_token");
-    const refresh_token = await createToken(payload, "refresh_token");
+    const checkSession = await prismaClient?.session?.findFirst({
+      where: {
+        token: refreshToken,
+      },
+    });
+
+    if (!checkSession) {
+      const reuse = await handleRefreshTokenReuse(req, refreshToken);
+      if (reuse === "revoked") {
+        clearAuthCookies(res);
+        return sendError(res, 401, "Session revoked, please log in again");
+      }
+      return sendError(res, 401, "Session not found");
+    }
+
+    const access_token = await createToken(
+      { userId: checkUserData?.id, email: checkUserData?.email, sessionId: checkSession?.id },
+      "access_token"
+    );
+    const refresh_token = await createToken(
+      { userId: checkUserData?.id, email: checkUserData?.email, nonce: randomUUID() },
+      "refresh_token"
+    );
 
     if (!access_token?.success || !refresh_token?.success) {
       return sendError(res, 401, "Error while creating tokens");
     }
 
-    const checkSession = await prismaClient?.session?.findFirst({
+    const rotated = await rotateSessionToken(req, {
+      sessionId: checkSession.id,
+      currentToken: refreshToken,
+      newToken: refresh_token?.data || "",
+    });
+    if (!rotated) {
+      return sendError(res, 401, "Session not found");
+    }
+
+    if (isBearerAuthMode(req)) {
+      return sendSuccess(
+        res,
+        { access_token: access_token?.data, refresh_token: refresh_token?.data },
+        "Tokens renewed successfully"
+      );
+    }
+
+    await setAuthCookies(res, {
+      accessToken: access_token?.data || "",
+      refreshToken: refresh_token?.data || "",
+    });
+
+    return sendSuccess(res, null, "Tokens renewed successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+export const getAllSessions = async (req: Request, res: Response) => {
+  try {
+    const {
+      success: checkUserSuccess,
+      data: checkUserData,
+      error: checkUserError,
+    } = await checkUser(req);
+    if (!checkUserSuccess) {
+      return sendError(res, 400, checkUserError || "Unknown error");
+    }
+    const sessions = await prismaClient?.session?.findMany({
       where: {
-        token: refreshToken,
+        userId: checkUserData?.id,
+        expiresAt: { gt: new Date() },
+      },
+      select: sessionSelect,
+      orderBy: {
+        lastUsedAt: "desc",
       },
     });
 
-    if (!checkSession) {
-      return sendError(res, 401, "Session not found");
+    const sessionsData = sessions?.map((session) => ({
+      ...session,
+      current: session.id === req.sessionId,
+    }));
+
+    return sendSuccess(res, sessionsData, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+export const revokeSession = async (req: Request, res: Response) => {
+  try {
+    const { success: checkUserSuccess, error: checkUserError } = await checkUser(req);
+    if (!checkUserSuccess) {
+      return sendError(res, 400, checkUserError || "Unknown error");
     }
 
-    const accessExpiryMs = parseTimeString(process.env.ACCESS_TOKEN_EXPIRY || "1h");
-    const refreshExpiryMs = parseTimeString(process.env.REFRESH_TOKEN_EXPIRY || "30d");
+    const { sessionId } = req.params;
+    if (!sessionId) {
+      return sendError(res, 400, "sessionId is required");
+    }
 
-    const refreshTokenExpiry = new Date(Date.now() + refreshExpiryMs);
+    const deleted = await prismaClient?.session?.deleteMany({
+      where: {
+        id: sessionId,
+        userId: req.userId,
+      },
+    });
+    forgetUserSessions(req.userId || "");
+    if (!deleted?.count) {
+      return sendError(res, 404, "Session not found");
+    }
+
+    if (sessionId === req.sessionId) {
+      clearAuthCookies(res);
+    }
+
+    await recordAuditEvent(req, {
+      action: "session.revoked",
+      targetType: "session",
+      targetId: sessionId,
+    });
 
-    await prismaClient?.session?.update({
+    return sendSuccess(res, null, "Session revoked successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const { success: checkUserSuccess, error: checkUserError } = await checkUser(req);
+    if (!checkUserSuccess) {
+      return sendError(res, 400, checkUserError || "Unknown error");
+    }
+
+    if (!req.sessionId) {
+      return sendError(res, 400, "Current session could not be determined, please log in again");
+    }
+
+    const deleted = await prismaClient?.session?.deleteMany({
       where: {
-        id: checkSession?.id,
+        userId: req.userId,
+        id: { not: req.sessionId },
       },
-      data: {
-        token: refresh_token.data,
-        expiresAt: refreshTokenExpiry,
+    });
+    forgetUserSessions(req.userId || "");
+
+    await recordAuditEvent(req, {
+      action: "session.revoked_others",
+      meta: { revoked: deleted?.count || 0 },
+    });
+
+    return sendSuccess(
+      res,
+      { revoked: deleted?.count || 0 },
+      "Other sessions revoked successfully"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+export const passwordResetRequest = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    if (!email) {
+      return sendError(res, 400, "Email is required");
+    }
+
+    // Same response whether or not the email exists, to avoid account enumeration
+    const genericMessage =
+      "If an account exists for this email, a password reset link has been sent";
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        email,
+      },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        status: true,
+        accounts: {
+          where: {
+            provider: "EMAIL",
+          },
+          select: {
+            id: true,
+          },
+        },
       },
     });
 
-    const encryptedUserData = await encryptData(checkUserData);
-    res.cookie("access_token", access_token?.data, {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      maxAge: accessExpiryMs,
-      path: "/",
+    if (!user?.email || user?.status !== "ACTIVE" || user?.accounts?.length === 0) {
+      return sendSuccess(res, null, genericMessage);
+    }
+
+    const resetToken = await issueVerificationToken({
+      userId: user.id,
+      email: user.email,
+      type: "PASSWORD_RESET",
     });
-    res.cookie("refresh_token", refresh_token?.data, {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      maxAge: refreshExpiryMs,
-      path: "/",
+    if (!resetToken?.success || !resetToken?.data) {
+      return sendError(res, 500, resetToken?.error || "Error while creating password reset token");
+    }
+
+    try {
+      await mailService.send(
+        passwordResetMail({
+          to: user.email,
+          name: user.name,
+          url: buildClientUrl(
+            `/auth/password-reset?token=${encodeURIComponent(resetToken.data.token)}`
+          ),
+          expiresAt: resetToken.data.expiresAt,
+        })
+      );
+    } catch (error) {
+      logger.error("Password reset mail failed", { userId: user.id });
+    }
+
+    return sendSuccess(res, null, genericMessage);
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+export const passwordResetConfirm = async (req: Request, res: Response) => {
+  try {
+    const { token, password, confirm_password } = req.body;
+    if (!token || !password || !confirm_password) {
+      return sendError(res, 400, "Token, password and confirm_password are required");
+    }
+
+    if (password !== confirm_password) {
+      return sendError(res, 400, "Confirm password is invalid");
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return sendError(res, 400, passwordError);
+    }
+
+    const verification = await consumeVerificationToken(token, "PASSWORD_RESET");
+    if (!verification?.success || !verification?.data) {
+      return sendError(res, 400, "Invalid or expired password reset token");
+    }
+
+    const userId = verification.data.userId;
+    const hashedPassword = await hashPassword(password);
+
+    const emailAccount = await prismaClient?.account?.findFirst({
+      where: {
+        userId,
+        provider: "EMAIL",
+      },
     });
-    res.cookie("user_data", encryptedUserData, {
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-      maxAge: refreshExpiryMs,
-      path: "/",
+    if (!emailAccount) {
+      return sendError(res, 404, "Account not found");
+    }
+
+    // Rotate the password and revoke every existing session of the user
+    await prismaClient?.$transaction([
+      prismaClient?.account?.update({
+        where: {
+          id: emailAccount.id,
+        },
+        data: {
+          passwordHash: hashedPassword,
+        },
+      }),
+      prismaClient?.session?.deleteMany({
+        where: {
+          userId,
+        },
+      }),
+    ]);
+    forgetUserSessions(userId);
+
+    await recordAuditEvent(req, {
+      action: "auth.password_reset",
+      actorId: userId,
+      targetType: "user",
+      targetId: userId,
     });
 
-    return sendSuccess(res, null, "Tokens renewed successfully");
+    return sendSuccess(res, null, "Password reset successfully");
   } catch (error) {
     return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
   }
 };
 
-export const getAllSessions = async (req: Request, res: Response) => {
+export const emailVerificationSend = async (req: Request, res: Response) => {
   try {
     const {
       success: checkUserSuccess,
       data: checkUserData,
       error: checkUserError,
     } = await checkUser(req);
-    if (!checkUserSuccess) {
+    if (!checkUserSuccess || !checkUserData) {
       return sendError(res, 400, checkUserError || "Unknown error");
     }
-    const sessions = await prismaClient?.session?.findMany({
+
+    if (checkUserData?.emailVerified) {
+      return sendError(res, 409, "Email address is already verified");
+    }
+    if (!checkUserData?.email) {
+      return sendError(res, 400, "No email address linked to this account");
+    }
+
+    const verification = await sendVerificationEmail({
+      id: checkUserData.id,
+      email: checkUserData.email,
+      name: checkUserData.name,
+    });
+    if (!verification?.success) {
+      return sendError(res, 500, verification?.error || "Error while sending verification email");
+    }
+
+    return sendSuccess(res, null, "Verification email sent");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+export const emailVerificationResend = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    if (!email) {
+      return sendError(res, 400, "Email is required");
+    }
+
+    // Same response whether or not the email exists, to avoid account enumeration
+    const genericMessage =
+      "If an unverified account exists for this email, a verification link has been sent";
+
+    const user = await prismaClient?.user?.findFirst({
       where: {
-        userId: checkUserData?.id,
+        email,
+      },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        status: true,
+        emailVerified: true,
       },
     });
 
-    return sendSuccess(res, sessions, "ok");
+    if (!user?.email || user?.status !== "ACTIVE" || user?.emailVerified) {
+      return sendSuccess(res, null, genericMessage);
+    }
+
+    try {
+      await sendVerificationEmail({ id: user.id, email: user.email, name: user.name });
+    } catch (error) {
+      logger.error("Verification mail failed", { userId: user.id });
+    }
+
+    return sendSuccess(res, null, genericMessage);
   } catch (error) {
     return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
   }
 };
 
-// export const passwordResetCreate = async (req: Request, res: Response) => {
-//   const ipAddress = extractIpAddress(req);
-//   const userAgent = extractUserAgent(req);
-//   try {
-//     const {
-//       success: checkUserSuccess,
-//       data: checkUserData,
-//       error: checkUserError,
-//     } = await checkUser(req);
-//     if (!checkUserSuccess) {
-//       return sendError(res, 400, checkUserError || "Unknown error");
-//     }
-
-//     await prismaClient?.passwordReset?.updateMany({
-//       where: {
-//         userId: checkUserData?.id,
-//         isActive: true,
-//       },
-//       data: {
-//         isActive: false,
-//       },
-//     });
-
-//     const payload = {
-//       userId: checkUserData?.id,
-//       email: checkUserData?.email,
-//       role: checkUserData?.userDetail?.role?.name,
-//     };
-//     const password_reset_token = await createToken(payload, "password_reset");
-
-//     const passwordResetUrl = `${process.env.CORS_ORIGIN}/auth/password-reset?id=${password_reset_token?.data}`;
-
-//     const passwordResetExpiryMs = parseTimeString(
-//       process.env.PASSWORD_RESET_TOKEN_EXPIRY || "1h"
-//     );
-
-//     const accessTokenExpiry = new Date(Date.now() + passwordResetExpiryMs);
-
-//     await prismaClient?.passwordReset?.create({
-//       data: {
-//         password_reset_token: password_reset_token?.data || "",
-//         userId: checkUserData?.id || "",
-//         expireAt: accessTokenExpiry,
-//         isActive: true,
-//       },
-//     });
-
-//     const auditLogPayloadSuccess: AuditLogPayload = {
-//       actorId: req?.userId || "",
-//       actorRole: req?.role as string,
-//       module: "auth",
-//       action: "passwordResetCreate",
-//       targetId: req?.userId || "",
-//       result: "success",
-//       ip: ipAddress || "",
-//       ua: userAgent || "",
-//     };
-//     return sendSuccess(
-//       res,
-//       passwordResetUrl,
-//       "Password reset url created",
-//       auditLogPayloadSuccess
-//     );
-//   } catch (error) {
-//     const auditLogPayloadFail: AuditLogPayload = {
-//       actorId: req?.userId || "",
-//       actorRole: req?.role as string,
-//       module: "auth",
-//       action: "passwordResetCreate",
-//       targetId: req?.userId || "",
-//       result: "fail",
-//       reason: error instanceof Error ? error.message : "Unknown error",
-//       ip: ipAddress || "",
-//       ua: userAgent || "",
-//     };
-//     return sendError(
-//       res,
-//       400,
-//       error instanceof Error ? error.message : "Unknown error",
-//       auditLogPayloadFail
-//     );
-//   }
-// };
-
-// export const passwordResetVerify = async (req: Request, res: Response) => {
-//   const ipAddress = extractIpAddress(req);
-//   const userAgent = extractUserAgent(req);
-//   try {
-//     const { token, password, confirm_password } = req.body;
-//     if (!token || !password || !confirm_password) {
-//       return sendError(
-//         res,
-//         404,
-//         "Token, password and confirm_password are required"
-//       );
-//     }
-
-//     if (password !== confirm_password) {
-//       const auditLogPayloadFail: AuditLogPayload = {
-//         actorId: req?.userId || "",
-//         actorRole: req?.role as string,
-//         module: "auth",
-//         action: "passwordResetVerify",
-//         targetId: req?.userId || "",
-//         result: "fail",
-//         reason: "Confirm password is invalid.",
-//         ip: ipAddress || "",
-//         ua: userAgent || "",
-//       };
-//       return sendError(
-//         res,
-//         400,
-//         "Confirm password is invalid.",
-//         auditLogPayloadFail
-//       );
-//     }
-
-//     const checkId = await prismaClient?.passwordReset?.findFirst({
-//       where: {
-//         password_reset_token: token,
-//         isActive: true,
-//       },
-//     });
-//     if (!checkId) {
-//       const auditLogPayloadFail: AuditLogPayload = {
-//         actorId: req?.userId || "",
-//         actorRole: req?.role as string,
-//         module: "auth",
-//         action: "passwordResetVerify",
-//         targetId: req?.userId || "",
-//         result: "fail",
-//         reason: "Password reset request not found",
-//         ip: ipAddress || "",
-//         ua: userAgent || "",
-//       };
-//       return sendError(
-//         res,
-//         404,
-//         "Password reset request not found",
-//         auditLogPayloadFail
-//       );
-//     }
-
-//     const hashedPassword = await hashPassword(password);
-
-//     await prismaClient?.user?.update({
-//       where: {
-//         id: checkId?.userId,
-//       },
-//       data: {
-//         password: hashedPassword,
-//       },
-//     });
-
-//     await prismaClient?.passwordReset?.update({
-//       where: {
-//         id: checkId?.id,
-//       },
-//       data: {
-//         isActive: false,
-//       },
-//     });
-
-//     const auditLogPayloadSuccess: AuditLogPayload = {
-//       actorId: req?.userId || "",
-//       actorRole: req?.role as string,
-//       module: "auth",
-//       action: "passwordResetVerify",
-//       targetId: req?.userId || "",
-//       result: "success",
-//       ip: ipAddress || "",
-//       ua: userAgent || "",
-//     };
-//     return sendSuccess(
-//       res,
-//       null,
-//       "Password reset successfully",
-//       auditLogPayloadSuccess
-//     );
-//   } catch (error) {
-//     const auditLogPayloadFail: AuditLogPayload = {
-//       actorId: req?.userId || "",
-//       actorRole: req?.role as string,
-//       module: "auth",
-//       action: "passwordResetVerify",
-//       targetId: req?.userId || "",
-//       result: "fail",
-//       reason: error instanceof Error ? error.message : "Unknown error",
-//       ip: ipAddress || "",
-//       ua: userAgent || "",
-//     };
-//     return sendError(
-//       res,
-//       400,
-//       error instanceof Error ? error.message : "Unknown error",
-//       auditLogPayloadFail
-//     );
-//   }
-// };
+export const emailVerificationConfirm = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+    if (!token) {
+      return sendError(res, 400, "Token is required");
+    }
+
+    const verification = await consumeVerificationToken(token, "EMAIL_VERIFY");
+    if (!verification?.success || !verification?.data) {
+      return sendError(res, 400, "Invalid or expired verification token");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: verification.data.userId,
+      },
+      select: {
+        id: true,
+        email: true,
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+
+    // The link is only valid for the address it was sent to
+    if (user.email !== verification.data.email) {
+      return sendError(res, 400, "Email address has changed, please request a new link");
+    }
+
+    await prismaClient?.user?.update({
+      where: {
+        id: user.id,
+      },
+      data: {
+        emailVerified: true,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "auth.email_verified",
+      actorId: user.id,
+      targetType: "user",
+      targetId: user.id,
+      meta: { email: user.email },
+    });
+
+    return sendSuccess(res, null, "Email verified successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
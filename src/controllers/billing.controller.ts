@@ -0,0 +1,293 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess, sendSuccessUnencrypted } from "@/utils/response";
+import { logger } from "@/utils/logger";
+import { buildClientUrl } from "@/utils/mailTemplates";
+import { fakeCheckoutEnabled, paymentService } from "@/lib/payment";
+import { recordAuditEvent } from "@/services/audit.service";
+import { CREDIT_PACKS, processPaymentEvent } from "@/services/billing.service";
+import { WebhookSignatureError, type PaymentEvent } from "@/services/payment.service";
+import {
+  findPurchasablePlanVersion,
+  getCurrentSubscription,
+} from "@/services/subscription.service";
+import { currencyFromLocale, isPlanCurrency, resolvePlanPrice } from "@/services/pricing.service";
+import { Prisma } from "prisma/generated/prisma/client";
+import type { PlanCurrency } from "prisma/generated/prisma/enums";
+
+const checkoutSelect = {
+  id: true,
+  kind: true,
+  planVersionId: true,
+  credits: true,
+  amount: true,
+  currency: true,
+  status: true,
+  completedAt: true,
+  createdAt: true,
+};
+
+/**
+ * Credit packs that can be bought
+ * GET /api/billing/credit-packs
+ */
+export const getCreditPacks = async (req: Request, res: Response) => {
+  try {
+    return sendSuccess(res, CREDIT_PACKS, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Start a checkout with the payment provider for a plan or a credit pack
+ * POST /api/billing/checkout
+ */
+export const createCheckout = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { planId, creditPackId, currency } = req.body;
+    if (!planId === !creditPackId) {
+      return sendError(res, 400, "Either planId or creditPackId is required");
+    }
+    if (currency !== undefined && !isPlanCurrency(currency)) {
+      return sendError(res, 400, "Unsupported currency");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        email: true,
+        locale: true,
+      },
+    });
+
+    // An explicit currency must be available; the locale currency is only a preference
+    const preferredCurrency = currency || currencyFromLocale(user?.locale);
+    const priceIn = async (priced: Parameters<typeof resolvePlanPrice>[0]) => {
+      const resolved = preferredCurrency ? await resolvePlanPrice(priced, preferredCurrency) : null;
+      if (resolved || currency) {
+        return resolved;
+      }
+      return { amount: priced.price, currency: priced.currency };
+    };
+
+    let checkoutData: {
+      kind: "SUBSCRIPTION" | "CREDITS";
+      planVersionId?: string;
+      credits?: number;
+      amount: string;
+      currency: PlanCurrency;
+      description: string;
+    };
+
+    if (planId) {
+      const planVersion = await findPurchasablePlanVersion(String(planId));
+      if (!planVersion) {
+        return sendError(res, 404, "Plan not found");
+      }
+      if (planVersion.price.isZero()) {
+        return sendError(res, 400, "Free plans don't need a checkout");
+      }
+
+      const current = await getCurrentSubscription(userId);
+      if (current?.providerSubscriptionId) {
+        return sendError(res, 409, "You already have a paid subscription, change its plan instead");
+      }
+
+      const price = await priceIn(planVersion);
+      if (!price) {
+        return sendError(res, 400, `This plan is not available in ${currency}`);
+      }
+
+      checkoutData = {
+        kind: "SUBSCRIPTION",
+        planVersionId: planVersion.id,
+        amount: price.amount.toFixed(2),
+        currency: price.currency,
+        description: `${planVersion.name} plan`,
+      };
+    } else {
+      const pack = CREDIT_PACKS.find((creditPack) => creditPack.id === creditPackId);
+      if (!pack) {
+        return sendError(res, 404, "Credit pack not found");
+      }
+
+      const price = await priceIn({
+        planId: pack.id,
+        price: new Prisma.Decimal(pack.price),
+        currency: pack.currency,
+      });
+      if (!price) {
+        return sendError(res, 400, `Credits are not available in ${currency}`);
+      }
+
+      checkoutData = {
+        kind: "CREDITS",
+        credits: pack.credits,
+        amount: price.amount.toFixed(2),
+        currency: price.currency,
+        description: `${pack.credits} credits`,
+      };
+    }
+
+    const checkout = await prismaClient?.checkout?.create({
+      data: {
+        userId,
+        kind: checkoutData.kind,
+        planVersionId: checkoutData.planVersionId,
+        credits: checkoutData.credits,
+        amount: checkoutData.amount,
+        currency: checkoutData.currency,
+        provider: paymentService.providerName,
+      },
+      select: checkoutSelect,
+    });
+
+    const session = await paymentService.createCheckoutSession({
+      checkoutId: checkout.id,
+      mode: checkoutData.kind === "SUBSCRIPTION" ? "subscription" : "payment",
+      amount: checkoutData.amount,
+      currency: checkoutData.currency,
+      description: checkoutData.description,
+      customerEmail: user?.email,
+      successUrl: buildClientUrl(`/billing/success?checkout=${checkout.id}`),
+      cancelUrl: buildClientUrl("/billing"),
+    });
+
+    await prismaClient?.checkout?.update({
+      where: {
+        id: checkout.id,
+      },
+      data: {
+        providerSessionId: session.id,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "billing.checkout_created",
+      targetType: "checkout",
+      targetId: checkout.id,
+      meta: {
+        kind: checkoutData.kind,
+        amount: checkoutData.amount,
+        currency: checkoutData.currency,
+      },
+    });
+
+    return sendSuccess(res, { ...checkout, url: session.url }, "Checkout created successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Status of a checkout, polled by the success page until the webhook arrived
+ * GET /api/billing/checkout/:checkoutId
+ */
+export const getCheckout = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { checkoutId } = req.params;
+    if (!checkoutId) {
+      return sendError(res, 400, "checkoutId is required");
+    }
+
+    const checkout = await prismaClient?.checkout?.findFirst({
+      where: {
+        id: checkoutId,
+        userId,
+      },
+      select: checkoutSelect,
+    });
+    if (!checkout) {
+      return sendError(res, 404, "Checkout not found");
+    }
+
+    return sendSuccess(res, checkout, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Payment provider webhook. The signature is checked against the raw request body;
+ * a non-2xx answer makes the provider retry the delivery.
+ * POST /api/billing/webhook
+ */
+export const handlePaymentWebhook = async (req: Request, res: Response) => {
+  let event: PaymentEvent;
+  try {
+    event = paymentService.parseWebhook(
+      req.rawBody || Buffer.alloc(0),
+      req.get("x-payment-signature")
+    );
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      logger.warn("Payment webhook rejected", { error: error.message });
+      return sendError(res, 400, error.message);
+    }
+    return sendError(res, 400, "Invalid webhook");
+  }
+
+  try {
+    const processed = await processPaymentEvent(paymentService.providerName, event);
+    return sendSuccessUnencrypted(res, null, processed ? "ok" : "Event already processed");
+  } catch (error) {
+    logger.error("Payment webhook failed", {
+      eventId: event.id,
+      type: event.type,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return sendError(res, 500, "Failed to process the event");
+  }
+};
+
+/**
+ * Complete a checkout without a payment - only with the fake provider, when explicitly enabled
+ * POST /api/billing/fake/complete
+ */
+export const completeFakeCheckout = async (req: Request, res: Response) => {
+  try {
+    if (!fakeCheckoutEnabled) {
+      return sendError(res, 404, "Not found");
+    }
+
+    const userId = req?.userId;
+    const { checkoutId } = req.body;
+    const checkout = await prismaClient?.checkout?.findFirst({
+      where: {
+        id: String(checkoutId || ""),
+        userId,
+      },
+    });
+    if (!checkout?.providerSessionId) {
+      return sendError(res, 404, "Checkout not found");
+    }
+
+    await processPaymentEvent(paymentService.providerName, {
+      id: `evt_fake_${checkout.id}`,
+      type: "checkout.completed",
+      data: {
+        sessionId: checkout.providerSessionId,
+        providerSubscriptionId:
+          checkout.kind === "SUBSCRIPTION" ? `sub_fake_${checkout.id}` : undefined,
+      },
+      raw: { checkoutId: checkout.id },
+    });
+
+    return sendSuccess(res, null, "Checkout completed");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
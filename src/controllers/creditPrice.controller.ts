@@ -0,0 +1,229 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { recordAuditEvent } from "@/services/audit.service";
+import {
+  DEFAULT_CREDIT_PRICES,
+  getCreditsPerUsd,
+  isMeteredAction,
+} from "@/services/credit.service";
+import { Prisma } from "prisma/generated/prisma/client";
+import { CreditPricingMode } from "prisma/generated/prisma/enums";
+
+const DECIMAL_PATTERN = /^\d{1,6}(\.\d{1,4})?$/;
+
+// Decimals are sent as a number or a string with at most four decimals
+const parseDecimal = (value: unknown) => {
+  const text = typeof value === "number" ? String(value) : value;
+  return typeof text === "string" && DECIMAL_PATTERN.test(text.trim()) ? text.trim() : null;
+};
+
+const isCredits = (value: unknown): value is number =>
+  Number.isInteger(value) && Number(value) >= 0;
+
+const toPriceSnapshot = (price?: {
+  mode: string;
+  credits: number;
+  creditsPerRow: unknown;
+  markup: unknown;
+  maxCredits: number | null;
+}) =>
+  price
+    ? {
+        mode: price.mode,
+        credits: price.credits,
+        creditsPerRow: price.creditsPerRow === null ? null : String(price.creditsPerRow),
+        markup: price.markup === null ? null : String(price.markup),
+        maxCredits: price.maxCredits,
+      }
+    : null;
+
+/**
+ * Credit price of every metered tool action, with the admin override when there is one
+ * GET /api/admin/credit-prices
+ */
+export const getCreditPrices = async (req: Request, res: Response) => {
+  try {
+    const overrides = await prismaClient?.creditPrice?.findMany();
+
+    const prices = Object.entries(DEFAULT_CREDIT_PRICES).map(([key, defaultCredits]) => {
+      const [tool, action] = key.split(".");
+      const override = overrides?.find((price) => price.tool === tool && price.action === action);
+      return { tool, action, defaultCredits, override: override || null };
+    });
+
+    return sendSuccess(res, { creditsPerUsd: getCreditsPerUsd(), prices }, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Set how a tool action is charged: a fixed price, per returned row or provider cost times a markup
+ * PUT /api/admin/credit-prices/:tool/:action
+ */
+export const updateCreditPrice = async (req: Request, res: Response) => {
+  try {
+    const { tool, action } = req.params;
+    if (!tool || !action || !isMeteredAction(String(tool), String(action))) {
+      return sendError(res, 404, "Unknown tool action");
+    }
+
+    const { mode = "FIXED", credits, creditsPerRow, markup, maxCredits } = req.body;
+    if (!Object.values(CreditPricingMode).includes(mode)) {
+      return sendError(res, 400, "mode must be FIXED, PER_ROW or PROVIDER_COST");
+    }
+    if (!isCredits(credits)) {
+      return sendError(res, 400, "credits must be a non-negative integer");
+    }
+    if (maxCredits !== undefined && maxCredits !== null && !isCredits(maxCredits)) {
+      return sendError(res, 400, "maxCredits must be a non-negative integer");
+    }
+    if (isCredits(maxCredits) && maxCredits < credits) {
+      return sendError(res, 400, "maxCredits can't be below credits");
+    }
+
+    const creditsPerRowValue = mode === "PER_ROW" ? parseDecimal(creditsPerRow) : null;
+    if (mode === "PER_ROW" && creditsPerRowValue === null) {
+      return sendError(res, 400, "creditsPerRow is required for PER_ROW pricing");
+    }
+    const markupValue = mode === "PROVIDER_COST" ? parseDecimal(markup) : null;
+    if (mode === "PROVIDER_COST" && (markupValue === null || Number(markupValue) <= 0)) {
+      return sendError(res, 400, "markup must be a positive number for PROVIDER_COST pricing");
+    }
+
+    const data = {
+      mode: mode as CreditPricingMode,
+      credits,
+      creditsPerRow: creditsPerRowValue,
+      markup: markupValue,
+      maxCredits: mode === "FIXED" ? null : (maxCredits ?? null),
+    };
+
+    const before = await prismaClient?.creditPrice?.findFirst({
+      where: {
+        tool: String(tool),
+        action: String(action),
+      },
+    });
+
+    const price = await prismaClient?.creditPrice?.upsert({
+      where: {
+        tool_action: { tool: String(tool), action: String(action) },
+      },
+      update: data,
+      create: {
+        tool: String(tool),
+        action: String(action),
+        ...data,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "credit_price.updated",
+      targetType: "credit_price",
+      targetId: `${tool}.${action}`,
+      before: toPriceSnapshot(before || undefined),
+      after: toPriceSnapshot(price),
+    });
+
+    return sendSuccess(res, price, "Credit price updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Drop the override of a tool action, it goes back to its built-in price
+ * DELETE /api/admin/credit-prices/:tool/:action
+ */
+export const deleteCreditPrice = async (req: Request, res: Response) => {
+  try {
+    const { tool, action } = req.params;
+    if (!tool || !action) {
+      return sendError(res, 400, "tool and action are required");
+    }
+
+    const deleted = await prismaClient?.creditPrice?.deleteMany({
+      where: {
+        tool: String(tool),
+        action: String(action),
+      },
+    });
+    if (!deleted?.count) {
+      return sendError(res, 404, "Credit price not found");
+    }
+
+    await recordAuditEvent(req, {
+      action: "credit_price.deleted",
+      targetType: "credit_price",
+      targetId: `${tool}.${action}`,
+    });
+
+    return sendSuccess(res, null, "Credit price reset successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Calls, credits charged and provider cost per tool action. Revenue values credits at
+ * CREDITS_PER_USD; calls whose providers report no cost only count towards revenue.
+ * GET /api/admin/usage/margins?from=&to=
+ */
+export const getUsageMargins = async (req: Request, res: Response) => {
+  try {
+    const { from, to } = req.query;
+
+    const fromDate = typeof from === "string" && from ? new Date(from) : undefined;
+    const toDate = typeof to === "string" && to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return sendError(res, 400, "from and to must be valid dates");
+    }
+
+    const groups = await prismaClient?.usageLog?.groupBy({
+      by: ["tool", "action"],
+      where: {
+        ...(fromDate || toDate
+          ? {
+              createdAt: {
+                ...(fromDate ? { gte: fromDate } : {}),
+                ...(toDate ? { lte: toDate } : {}),
+              },
+            }
+          : {}),
+      },
+      _count: {
+        _all: true,
+      },
+      _sum: {
+        credits: true,
+        providerCost: true,
+      },
+      orderBy: [{ tool: "asc" }, { action: "asc" }],
+    });
+
+    const creditsPerUsd = getCreditsPerUsd();
+    const margins = (groups || []).map((group) => {
+      const credits = group._sum.credits || 0;
+      const revenue = new Prisma.Decimal(credits).dividedBy(creditsPerUsd);
+      const providerCost = group._sum.providerCost || new Prisma.Decimal(0);
+      const margin = revenue.minus(providerCost);
+
+      return {
+        tool: group.tool,
+        action: group.action,
+        calls: group._count._all,
+        credits,
+        revenue: revenue.toFixed(2),
+        providerCost: providerCost.toFixed(6),
+        margin: margin.toFixed(2),
+        marginRate: revenue.isZero() ? null : margin.dividedBy(revenue).toFixed(4),
+      };
+    });
+
+    return sendSuccess(res, { creditsPerUsd, margins }, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
@@ -0,0 +1,198 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { logger } from "@/utils/logger";
+import {
+  extractIpAddress,
+  extractUserAgent,
+  parseCursorPagination,
+  toCursorPage,
+} from "@/utils/helperFunctions";
+import { createImpersonationSession } from "@/services/session.service";
+import { resolveUserAccess } from "@/services/permission.service";
+import { recordAuditEvent } from "@/services/audit.service";
+
+/**
+ * Start acting as a user - admins only. Returns a short-lived bearer access token.
+ * POST /api/admin/user/:userId/impersonate
+ */
+export const startImpersonation = async (req: Request, res: Response) => {
+  try {
+    const adminId = req?.userId;
+    if (!adminId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+    if (req.impersonatorId) {
+      return sendError(res, 400, "Stop the current impersonation first");
+    }
+
+    const admin = await resolveUserAccess(adminId);
+    if (admin?.roleName !== "admin") {
+      return sendError(res, 403, "Only admins can impersonate users");
+    }
+
+    const { userId } = req?.params;
+    const { reason } = req.body || {};
+    if (!userId) {
+      return sendError(res, 400, "userId is required");
+    }
+    if (userId === adminId) {
+      return sendError(res, 400, "You can't impersonate yourself");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        id: true,
+        email: true,
+        status: true,
+        role: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+    if (user.status !== "ACTIVE") {
+      return sendError(res, 400, "Only active users can be impersonated");
+    }
+    if (user.role?.name === "admin") {
+      return sendError(res, 403, "Admins can't be impersonated");
+    }
+
+    const session = await createImpersonationSession(req, { adminId, user });
+    if (!session?.success || !session?.data) {
+      return sendError(res, 400, session?.error || "Error while creating tokens");
+    }
+
+    await prismaClient?.impersonationLog?.create({
+      data: {
+        adminId,
+        userId,
+        sessionId: session.data.sessionId,
+        reason: typeof reason === "string" ? reason.trim() || null : null,
+        ipAddress: extractIpAddress(req),
+        userAgent: extractUserAgent(req),
+        expiresAt: session.data.expiresAt,
+      },
+    });
+
+    logger.warn("Security Event: impersonation started", {
+      adminId,
+      userId,
+      sessionId: session.data.sessionId,
+    });
+    await recordAuditEvent(req, {
+      action: "impersonation.started",
+      targetType: "user",
+      targetId: userId,
+      meta: { sessionId: session.data.sessionId, reason },
+    });
+
+    return sendSuccess(
+      res,
+      {
+        userId,
+        access_token: session.data.accessToken,
+        expiresAt: session.data.expiresAt,
+      },
+      "Impersonation started"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Stop the current impersonation session
+ * POST /api/auth/impersonation/stop
+ */
+export const stopImpersonation = async (req: Request, res: Response) => {
+  try {
+    const sessionId = req?.sessionId;
+    if (!req.impersonatorId || !sessionId) {
+      return sendError(res, 400, "Not impersonating a user");
+    }
+
+    await prismaClient?.$transaction([
+      prismaClient?.session?.deleteMany({
+        where: {
+          id: sessionId,
+          impersonatorId: req.impersonatorId,
+        },
+      }),
+      prismaClient?.impersonationLog?.updateMany({
+        where: {
+          sessionId,
+          endedAt: null,
+        },
+        data: {
+          endedAt: new Date(),
+        },
+      }),
+    ]);
+
+    logger.warn("Security Event: impersonation stopped", {
+      adminId: req.impersonatorId,
+      userId: req.userId,
+      sessionId,
+    });
+    await recordAuditEvent(req, {
+      action: "impersonation.stopped",
+      actorId: req.impersonatorId,
+      targetType: "user",
+      targetId: req.userId,
+      meta: { sessionId },
+    });
+
+    return sendSuccess(res, null, "Impersonation stopped");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Impersonation audit trail, optionally filtered by admin or user
+ * GET /api/admin/impersonations?adminId=&userId=&cursor=&limit=
+ */
+export const getImpersonationLogs = async (req: Request, res: Response) => {
+  try {
+    const { limit, cursor } = parseCursorPagination(req);
+    const { adminId, userId } = req.query;
+
+    const logs = await prismaClient?.impersonationLog?.findMany({
+      where: {
+        ...(typeof adminId === "string" && adminId ? { adminId } : {}),
+        ...(typeof userId === "string" && userId ? { userId } : {}),
+      },
+      include: {
+        admin: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: [{ startedAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    return sendSuccess(res, toCursorPage(logs || [], limit), "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
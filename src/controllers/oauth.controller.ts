@@ -0,0 +1,279 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError } from "@/utils/response";
+import { logger } from "@/utils/logger";
+import { decryptData, encryptData } from "@/utils/encryptDecryptPayload";
+import { buildClientUrl } from "@/utils/mailTemplates";
+import { createToken } from "@/utils/tokenUtils";
+import { createUserSession } from "@/services/session.service";
+import { isTwoFactorEnabled } from "@/services/twoFactor.service";
+import {
+  createOAuthService,
+  generateCodeChallenge,
+  generateCodeVerifier,
+  generateOAuthState,
+  type OAuthProfile,
+  type OAuthProvider,
+  type OAuthService,
+} from "@/services/oauth.service";
+import { recordAuditEvent } from "@/services/audit.service";
+import { getLoginPolicyError, userSelect } from "./auth.controller";
+
+const redirectBaseUrl = (
+  process.env.OAUTH_REDIRECT_BASE_URL ||
+  `http://localhost:${process.env.PORT || 5000}/api/auth/oauth`
+).replace(/\/+$/, "");
+
+// Provider endpoints can be overridden to run the flow against a mock identity provider
+const oauthServices: Record<string, OAuthService> = {
+  google: createOAuthService("GOOGLE", {
+    clientId: process.env.GOOGLE_CLIENT_ID || "",
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET || "",
+    authorizationUrl:
+      process.env.GOOGLE_AUTHORIZATION_URL || "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: process.env.GOOGLE_TOKEN_URL || "https://oauth2.googleapis.com/token",
+    userInfoUrl:
+      process.env.GOOGLE_USERINFO_URL || "https://openidconnect.googleapis.com/v1/userinfo",
+    scope: "openid email profile",
+    redirectUri: `${redirectBaseUrl}/google/callback`,
+  }),
+  github: createOAuthService("GITHUB", {
+    clientId: process.env.GITHUB_CLIENT_ID || "",
+    clientSecret: process.env.GITHUB_CLIENT_SECRET || "",
+    authorizationUrl:
+      process.env.GITHUB_AUTHORIZATION_URL || "https://github.com/login/oauth/authorize",
+    tokenUrl: process.env.GITHUB_TOKEN_URL || "https://github.com/login/oauth/access_token",
+    userInfoUrl: process.env.GITHUB_USERINFO_URL || "https://api.github.com/user",
+    emailsUrl: process.env.GITHUB_EMAILS_URL || "https://api.github.com/user/emails",
+    scope: "read:user user:email",
+    redirectUri: `${redirectBaseUrl}/github/callback`,
+  }),
+};
+
+const OAUTH_STATE_COOKIE = "oauth_state";
+const OAUTH_STATE_MAX_AGE = 10 * 60 * 1000;
+
+// The provider redirects back cross-site, so this cookie has to be "lax" instead of "strict"
+const oauthStateCookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: "lax" as const,
+  path: "/api/auth/oauth",
+};
+
+interface OAuthStateCookie {
+  provider: OAuthProvider;
+  state: string;
+  codeVerifier: string;
+}
+
+const getOAuthService = (req: Request) => {
+  const provider = String(req.params.provider || "").toLowerCase();
+  const service = oauthServices[provider];
+  return service?.isConfigured() ? service : null;
+};
+
+const redirectWithError = (res: Response, error: string) => {
+  return res.redirect(buildClientUrl(`/auth/login?error=${encodeURIComponent(error)}`));
+};
+
+// Find the user linked to the provider account, link it to an existing user or create a new one
+const findOrCreateOAuthUser = async (provider: OAuthProvider, profile: OAuthProfile) => {
+  const account = await prismaClient?.account?.findFirst({
+    where: {
+      provider,
+      providerAccountId: profile.providerAccountId,
+    },
+  });
+  if (account) {
+    return { success: true, data: account.userId };
+  }
+
+  if (profile.email) {
+    const existingUser = await prismaClient?.user?.findFirst({
+      where: {
+        email: profile.email,
+      },
+    });
+
+    if (existingUser) {
+      // Only link when both sides proved ownership of the email, otherwise whoever
+      // registered the address first could take over the account
+      if (!profile.emailVerified || !existingUser.emailVerified) {
+        return { success: false, error: "account_exists" };
+      }
+
+      await prismaClient?.account?.create({
+        data: {
+          userId: existingUser.id,
+          provider,
+          providerAccountId: profile.providerAccountId,
+        },
+      });
+      return { success: true, data: existingUser.id };
+    }
+  }
+
+  const role = await prismaClient?.role?.findFirst({
+    where: {
+      name: "user",
+    },
+  });
+  if (!role) {
+    return { success: false, error: "role_not_found" };
+  }
+
+  const user = await prismaClient?.user?.create({
+    data: {
+      email: profile.email,
+      emailVerified: profile.emailVerified,
+      name: profile.name,
+      avatarUrl: profile.avatarUrl,
+      roleId: role.id,
+
+      accounts: {
+        create: {
+          provider,
+          providerAccountId: profile.providerAccountId,
+        },
+      },
+    },
+  });
+
+  return { success: true, data: user.id };
+};
+
+/**
+ * Start OAuth sign-in
+ * GET /api/auth/oauth/:provider
+ */
+export const oauthStart = async (req: Request, res: Response) => {
+  try {
+    const oauthService = getOAuthService(req);
+    if (!oauthService) {
+      return sendError(res, 404, "OAuth provider not supported");
+    }
+
+    const state = generateOAuthState();
+    const codeVerifier = generateCodeVerifier();
+
+    const stateCookie: OAuthStateCookie = {
+      provider: oauthService.provider,
+      state,
+      codeVerifier,
+    };
+    res.cookie(OAUTH_STATE_COOKIE, await encryptData(stateCookie), {
+      ...oauthStateCookieOptions,
+      maxAge: OAUTH_STATE_MAX_AGE,
+    });
+
+    return res.redirect(
+      oauthService.getAuthorizationUrl({
+        state,
+        codeChallenge: generateCodeChallenge(codeVerifier),
+      })
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * OAuth provider callback
+ * GET /api/auth/oauth/:provider/callback
+ */
+export const oauthCallback = async (req: Request, res: Response) => {
+  try {
+    const oauthService = getOAuthService(req);
+    if (!oauthService) {
+      return sendError(res, 404, "OAuth provider not supported");
+    }
+
+    const stateCookie = req.cookies[OAUTH_STATE_COOKIE];
+    res.clearCookie(OAUTH_STATE_COOKIE, oauthStateCookieOptions);
+
+    const { code, state, error } = req.query;
+    if (error) {
+      return redirectWithError(res, "access_denied");
+    }
+    if (!stateCookie || typeof code !== "string" || typeof state !== "string") {
+      return redirectWithError(res, "invalid_request");
+    }
+
+    let storedState: OAuthStateCookie;
+    try {
+      storedState = await decryptData<OAuthStateCookie>(stateCookie);
+    } catch {
+      return redirectWithError(res, "invalid_state");
+    }
+    if (storedState?.provider !== oauthService.provider || storedState?.state !== state) {
+      return redirectWithError(res, "invalid_state");
+    }
+
+    let profile: OAuthProfile;
+    try {
+      const providerAccessToken = await oauthService.exchangeCode({
+        code,
+        codeVerifier: storedState.codeVerifier,
+      });
+      profile = await oauthService.getProfile(providerAccessToken);
+    } catch {
+      return redirectWithError(res, "provider_error");
+    }
+
+    const oauthUser = await findOrCreateOAuthUser(oauthService.provider, profile);
+    if (!oauthUser?.success || !oauthUser?.data) {
+      return redirectWithError(res, oauthUser?.error || "unknown_error");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: oauthUser.data,
+      },
+      select: userSelect,
+    });
+    if (!user) {
+      return redirectWithError(res, "user_not_found");
+    }
+    const policyError = getLoginPolicyError(user);
+    if (policyError) {
+      return redirectWithError(res, policyError.code);
+    }
+
+    // Same challenge as the password login: the session only comes from POST /login/2fa.
+    // The token travels in the fragment so it never reaches server logs or referrers.
+    if (await isTwoFactorEnabled(user.id)) {
+      const challengeToken = await createToken(
+        { userId: user.id, purpose: "two_factor_login" },
+        "two_factor"
+      );
+      if (!challengeToken?.success || !challengeToken?.data) {
+        return redirectWithError(res, "session_error");
+      }
+
+      const twoFactorUrl =
+        process.env.OAUTH_TWO_FACTOR_REDIRECT_URL || buildClientUrl("/auth/login/2fa");
+      return res.redirect(
+        `${twoFactorUrl}#challengeToken=${encodeURIComponent(challengeToken.data)}`
+      );
+    }
+
+    const session = await createUserSession(req, res, user);
+    if (!session?.success) {
+      return redirectWithError(res, "session_error");
+    }
+
+    await recordAuditEvent(req, {
+      action: "auth.login",
+      actorId: user.id,
+      targetType: "session",
+      targetId: session.data?.sessionId,
+      meta: { provider: oauthService.provider },
+    });
+
+    return res.redirect(process.env.OAUTH_SUCCESS_REDIRECT_URL || buildClientUrl("/dashboard"));
+  } catch (error: any) {
+    logger.error("OAuth Callback Error", { error: error.message });
+    return redirectWithError(res, "unknown_error");
+  }
+};
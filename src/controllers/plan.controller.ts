@@ -1,12 +1,105 @@
 import { type Request, type Response } from "express";
 import { prismaClient } from "@/lib/prismaClient";
 import { sendError, sendSuccess } from "@/utils/response";
+import { recordAuditEvent } from "@/services/audit.service";
+import {
+  parsePlanEntitlements,
+  parsePlanFeatures,
+  parsePlanPrice,
+  toPlanEntitlements,
+  toPlanVersionData,
+  type PlanEntitlements,
+  type PlanFeature,
+} from "@/services/plan.service";
+import {
+  currencyFromLocale,
+  isPlanCurrency,
+  loadExchangeRates,
+  resolvePrice,
+} from "@/services/pricing.service";
+import type { PlanCurrency } from "prisma/generated/prisma/enums";
 
+const MAX_PLAN_NAME_LENGTH = 50;
+const MAX_PLAN_DESCRIPTION_LENGTH = 500;
+
+type PlanSnapshotSource = {
+  name: string;
+  description: string | null;
+  price: unknown;
+  currency: string;
+  features: unknown;
+  entitlements: unknown;
+  isActive: boolean;
+  version: number;
+};
+
+const toPlanSnapshot = (plan: PlanSnapshotSource) => ({
+  name: plan.name,
+  description: plan.description,
+  price: String(plan.price),
+  currency: plan.currency,
+  features: plan.features,
+  entitlements: plan.entitlements,
+  isActive: plan.isActive,
+  version: plan.version,
+});
+
+/**
+ * Active plans priced in `?currency=`, or in the currency of the signed-in user's locale.
+ * Plans that can't be priced in that currency keep their own price.
+ * GET /api/plan/get-all-plans
+ */
 export const getAllPlans = async (req: Request, res: Response) => {
   try {
-    const plansData = await prismaClient?.plan?.findMany();
+    let currency: PlanCurrency | null = null;
+    if (req.query.currency !== undefined) {
+      const requested = String(req.query.currency).toUpperCase();
+      if (!isPlanCurrency(requested)) {
+        return sendError(res, 400, "Unsupported currency");
+      }
+      currency = requested;
+    } else if (req.userId) {
+      const user = await prismaClient?.user?.findFirst({
+        where: {
+          id: req.userId,
+        },
+        select: {
+          locale: true,
+        },
+      });
+      currency = currencyFromLocale(user?.locale);
+    }
 
-    return sendSuccess(res, plansData, "ok");
+    const plansData = await prismaClient?.plan?.findMany({
+      where: {
+        isActive: true,
+      },
+      include: {
+        prices: {
+          select: {
+            planId: true,
+            currency: true,
+            amount: true,
+          },
+        },
+      },
+      orderBy: {
+        price: "asc",
+      },
+    });
+
+    const rates = currency ? await loadExchangeRates() : new Map();
+    const plans = (plansData || []).map(({ prices, ...plan }) => {
+      const resolved = currency
+        ? resolvePrice({ ...plan, planId: plan.id }, currency, prices, rates)
+        : null;
+      return {
+        ...plan,
+        displayPrice: resolved || { amount: plan.price, currency: plan.currency, source: "base" },
+      };
+    });
+
+    return sendSuccess(res, plans, "ok");
   } catch (error) {
     return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
   }
@@ -22,11 +115,355 @@ export const getSinglePlan = async (req: Request, res: Response) => {
     const planData = await prismaClient?.plan?.findFirst({
       where: {
         id: planId,
+        isActive: true,
       },
     });
+    if (!planData) {
+      return sendError(res, 404, "Plan not found");
+    }
 
     return sendSuccess(res, planData, "ok");
   } catch (error) {
     return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
   }
 };
+
+/**
+ * All plans including the archived ones
+ * GET /api/admin/plans
+ */
+export const getAllPlansForAdmin = async (req: Request, res: Response) => {
+  try {
+    const plans = await prismaClient?.plan?.findMany({
+      include: {
+        _count: {
+          select: {
+            versions: true,
+          },
+        },
+      },
+      orderBy: [{ isActive: "desc" }, { price: "asc" }],
+    });
+
+    return sendSuccess(res, plans, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Create a plan
+ * POST /api/admin/plans
+ */
+export const createPlan = async (req: Request, res: Response) => {
+  try {
+    const { name, description, price, currency, features, entitlements } = req.body;
+
+    const planName = typeof name === "string" ? name.trim() : "";
+    if (!planName || planName.length > MAX_PLAN_NAME_LENGTH) {
+      return sendError(res, 400, `Name must be between 1 and ${MAX_PLAN_NAME_LENGTH} characters`);
+    }
+    if (
+      description != null &&
+      (typeof description !== "string" || description.length > MAX_PLAN_DESCRIPTION_LENGTH)
+    ) {
+      return sendError(
+        res,
+        400,
+        `Description must be at most ${MAX_PLAN_DESCRIPTION_LENGTH} characters`
+      );
+    }
+
+    const planPrice = parsePlanPrice(price);
+    if (planPrice === null) {
+      return sendError(res, 400, "price must be a positive amount with at most two decimals");
+    }
+    if (!isPlanCurrency(currency)) {
+      return sendError(res, 400, "Unsupported currency");
+    }
+
+    const parsedFeatures = parsePlanFeatures(features);
+    if (parsedFeatures.error !== undefined) {
+      return sendError(res, 400, parsedFeatures.error);
+    }
+
+    // Left out, the plan is unlimited
+    const parsedEntitlements = parsePlanEntitlements(entitlements ?? {});
+    if (parsedEntitlements.error !== undefined) {
+      return sendError(res, 400, parsedEntitlements.error);
+    }
+
+    const existing = await prismaClient?.plan?.findFirst({
+      where: {
+        name: { equals: planName, mode: "insensitive" },
+      },
+    });
+    if (existing) {
+      return sendError(res, 409, "A plan with this name already exists");
+    }
+
+    const plan = await prismaClient?.$transaction(async (tx) => {
+      const created = await tx.plan.create({
+        data: {
+          name: planName,
+          description: description || null,
+          price: planPrice,
+          currency,
+          features: parsedFeatures.features,
+          entitlements: parsedEntitlements.entitlements,
+        },
+      });
+      await tx.planVersion.create({
+        data: toPlanVersionData(created, req.userId),
+      });
+      return created;
+    });
+
+    await recordAuditEvent(req, {
+      action: "plan.created",
+      targetType: "plan",
+      targetId: plan?.id,
+      after: plan ? toPlanSnapshot(plan) : null,
+    });
+
+    return sendSuccess(res, plan, "Plan created successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Update a plan. Changing the price, currency, features or entitlements creates a new version;
+ * existing subscribers keep the version they bought.
+ * PUT /api/admin/plans/:planId
+ */
+export const updatePlan = async (req: Request, res: Response) => {
+  try {
+    const { planId } = req.params;
+    if (!planId) {
+      return sendError(res, 400, "planId is required");
+    }
+
+    const { name, description, price, currency, features, entitlements } = req.body;
+
+    const current = await prismaClient?.plan?.findFirst({
+      where: {
+        id: planId,
+      },
+    });
+    if (!current) {
+      return sendError(res, 404, "Plan not found");
+    }
+    if (current.archivedAt) {
+      return sendError(res, 400, "Archived plans can't be edited");
+    }
+
+    let planName: string | undefined;
+    if (name !== undefined) {
+      planName = typeof name === "string" ? name.trim() : "";
+      if (!planName || planName.length > MAX_PLAN_NAME_LENGTH) {
+        return sendError(res, 400, `Name must be between 1 and ${MAX_PLAN_NAME_LENGTH} characters`);
+      }
+
+      const existing = await prismaClient?.plan?.findFirst({
+        where: {
+          id: { not: planId },
+          name: { equals: planName, mode: "insensitive" },
+        },
+      });
+      if (existing) {
+        return sendError(res, 409, "A plan with this name already exists");
+      }
+    }
+    if (
+      description !== undefined &&
+      description !== null &&
+      (typeof description !== "string" || description.length > MAX_PLAN_DESCRIPTION_LENGTH)
+    ) {
+      return sendError(
+        res,
+        400,
+        `Description must be at most ${MAX_PLAN_DESCRIPTION_LENGTH} characters`
+      );
+    }
+
+    let planPrice: string | undefined;
+    if (price !== undefined) {
+      const parsedPrice = parsePlanPrice(price);
+      if (parsedPrice === null) {
+        return sendError(res, 400, "price must be a positive amount with at most two decimals");
+      }
+      planPrice = parsedPrice;
+    }
+    if (currency !== undefined && !isPlanCurrency(currency)) {
+      return sendError(res, 400, "Unsupported currency");
+    }
+
+    let planFeatures: PlanFeature[] | undefined;
+    if (features !== undefined) {
+      const parsedFeatures = parsePlanFeatures(features);
+      if (parsedFeatures.error !== undefined) {
+        return sendError(res, 400, parsedFeatures.error);
+      }
+      planFeatures = parsedFeatures.features;
+    }
+
+    // Keys left out keep their current value
+    let planEntitlements: PlanEntitlements | undefined;
+    if (entitlements !== undefined) {
+      const parsedEntitlements = parsePlanEntitlements(
+        entitlements,
+        toPlanEntitlements(current.entitlements)
+      );
+      if (parsedEntitlements.error !== undefined) {
+        return sendError(res, 400, parsedEntitlements.error);
+      }
+      planEntitlements = parsedEntitlements.entitlements;
+    }
+
+    const termsChanged =
+      (planPrice !== undefined && !current.price.equals(planPrice)) ||
+      (currency !== undefined && currency !== current.currency) ||
+      (planFeatures !== undefined &&
+        JSON.stringify(planFeatures) !== JSON.stringify(current.features)) ||
+      (planEntitlements !== undefined &&
+        JSON.stringify(planEntitlements) !==
+          JSON.stringify(toPlanEntitlements(current.entitlements)));
+
+    const plan = await prismaClient?.$transaction(async (tx) => {
+      const updated = await tx.plan.update({
+        where: {
+          id: planId,
+        },
+        data: {
+          ...(planName !== undefined ? { name: planName } : {}),
+          ...(description !== undefined ? { description: description || null } : {}),
+          ...(planPrice !== undefined ? { price: planPrice } : {}),
+          ...(currency !== undefined ? { currency } : {}),
+          ...(planFeatures !== undefined ? { features: planFeatures } : {}),
+          ...(planEntitlements !== undefined ? { entitlements: planEntitlements } : {}),
+          ...(termsChanged ? { version: { increment: 1 } } : {}),
+        },
+      });
+      if (termsChanged) {
+        await tx.planVersion.create({
+          data: toPlanVersionData(updated, req.userId),
+        });
+      }
+      return updated;
+    });
+
+    await recordAuditEvent(req, {
+      action: "plan.updated",
+      targetType: "plan",
+      targetId: planId,
+      before: toPlanSnapshot(current),
+      after: plan ? toPlanSnapshot(plan) : null,
+    });
+
+    return sendSuccess(res, plan, "Plan updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Archive a plan - it is hidden from the public listing and can't be bought anymore,
+ * existing subscribers are not affected
+ * POST /api/admin/plans/:planId/archive
+ */
+export const archivePlan = async (req: Request, res: Response) => {
+  try {
+    const { planId } = req.params;
+    if (!planId) {
+      return sendError(res, 400, "planId is required");
+    }
+
+    const archived = await prismaClient?.plan?.updateMany({
+      where: {
+        id: planId,
+        archivedAt: null,
+      },
+      data: {
+        isActive: false,
+        archivedAt: new Date(),
+      },
+    });
+    if (!archived?.count) {
+      return sendError(res, 404, "Plan not found or already archived");
+    }
+
+    await recordAuditEvent(req, {
+      action: "plan.archived",
+      targetType: "plan",
+      targetId: planId,
+    });
+
+    return sendSuccess(res, null, "Plan archived successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Make an archived plan available again
+ * POST /api/admin/plans/:planId/restore
+ */
+export const restorePlan = async (req: Request, res: Response) => {
+  try {
+    const { planId } = req.params;
+    if (!planId) {
+      return sendError(res, 400, "planId is required");
+    }
+
+    const restored = await prismaClient?.plan?.updateMany({
+      where: {
+        id: planId,
+        archivedAt: { not: null },
+      },
+      data: {
+        isActive: true,
+        archivedAt: null,
+      },
+    });
+    if (!restored?.count) {
+      return sendError(res, 404, "Plan not found or not archived");
+    }
+
+    await recordAuditEvent(req, {
+      action: "plan.restored",
+      targetType: "plan",
+      targetId: planId,
+    });
+
+    return sendSuccess(res, null, "Plan restored successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Version history of a plan
+ * GET /api/admin/plans/:planId/versions
+ */
+export const getPlanVersions = async (req: Request, res: Response) => {
+  try {
+    const { planId } = req.params;
+    if (!planId) {
+      return sendError(res, 400, "planId is required");
+    }
+
+    const versions = await prismaClient?.planVersion?.findMany({
+      where: {
+        planId,
+      },
+      orderBy: {
+        version: "desc",
+      },
+    });
+
+    return sendSuccess(res, versions, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
@@ -0,0 +1,266 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { recordAuditEvent } from "@/services/audit.service";
+import { parsePlanPrice } from "@/services/plan.service";
+import { isPlanCurrency, loadExchangeRates, resolvePrice } from "@/services/pricing.service";
+
+const RATE_PATTERN = /^\d{1,10}(\.\d{1,8})?$/;
+
+const toPriceSnapshot = (prices: Array<{ currency: string; amount: unknown }>) =>
+  Object.fromEntries(prices.map((price) => [price.currency, String(price.amount)]));
+
+/**
+ * Price list of a plan: admin list prices and the price resolved for every currency with a rate
+ * GET /api/admin/plans/:planId/prices
+ */
+export const getPlanPrices = async (req: Request, res: Response) => {
+  try {
+    const { planId } = req.params;
+    if (!planId) {
+      return sendError(res, 400, "planId is required");
+    }
+
+    const plan = await prismaClient?.plan?.findFirst({
+      where: {
+        id: planId,
+      },
+      include: {
+        prices: {
+          orderBy: {
+            currency: "asc",
+          },
+        },
+      },
+    });
+    if (!plan) {
+      return sendError(res, 404, "Plan not found");
+    }
+
+    const rates = await loadExchangeRates();
+    const currencies = new Set([
+      plan.currency,
+      ...plan.prices.map((price) => price.currency),
+      ...rates.keys(),
+    ]);
+    const resolved = [...currencies].map(
+      (currency) =>
+        resolvePrice({ ...plan, planId: plan.id }, currency, plan.prices, rates) || {
+          amount: null,
+          currency,
+          source: null,
+        }
+    );
+
+    return sendSuccess(res, { prices: plan.prices, resolved }, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Replace the list prices of a plan - currencies left out fall back to the FX table
+ * PUT /api/admin/plans/:planId/prices
+ */
+export const updatePlanPrices = async (req: Request, res: Response) => {
+  try {
+    const { planId } = req.params;
+    if (!planId) {
+      return sendError(res, 400, "planId is required");
+    }
+
+    const { prices } = req.body;
+    if (!Array.isArray(prices)) {
+      return sendError(res, 400, "prices must be an array of { currency, amount }");
+    }
+
+    const plan = await prismaClient?.plan?.findFirst({
+      where: {
+        id: planId,
+      },
+      include: {
+        prices: true,
+      },
+    });
+    if (!plan) {
+      return sendError(res, 404, "Plan not found");
+    }
+
+    const entries: Array<{ currency: typeof plan.currency; amount: string }> = [];
+    for (const price of prices) {
+      if (!isPlanCurrency(price?.currency)) {
+        return sendError(res, 400, `Unsupported currency: ${price?.currency}`);
+      }
+      if (price.currency === plan.currency) {
+        return sendError(res, 400, `${plan.currency} is the plan's own currency`);
+      }
+      if (entries.some((entry) => entry.currency === price.currency)) {
+        return sendError(res, 400, `Duplicate currency: ${price.currency}`);
+      }
+      const amount = parsePlanPrice(price.amount);
+      if (amount === null) {
+        return sendError(res, 400, `Invalid amount for ${price.currency}`);
+      }
+      entries.push({ currency: price.currency, amount });
+    }
+
+    const updated = await prismaClient?.$transaction([
+      prismaClient?.planPrice?.deleteMany({
+        where: {
+          planId,
+          currency: { notIn: entries.map((entry) => entry.currency) },
+        },
+      }),
+      ...entries.map((entry) =>
+        prismaClient?.planPrice?.upsert({
+          where: {
+            planId_currency: { planId, currency: entry.currency },
+          },
+          update: {
+            amount: entry.amount,
+          },
+          create: {
+            planId,
+            currency: entry.currency,
+            amount: entry.amount,
+          },
+        })
+      ),
+    ]);
+
+    await recordAuditEvent(req, {
+      action: "plan.prices_updated",
+      targetType: "plan",
+      targetId: planId,
+      before: toPriceSnapshot(plan.prices),
+      after: toPriceSnapshot(entries),
+    });
+
+    return sendSuccess(res, updated?.slice(1), "Plan prices updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * FX table
+ * GET /api/admin/exchange-rates
+ */
+export const getExchangeRates = async (req: Request, res: Response) => {
+  try {
+    const rates = await prismaClient?.exchangeRate?.findMany({
+      orderBy: {
+        currency: "asc",
+      },
+    });
+
+    return sendSuccess(res, rates, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Set the rate and rounding rule of a currency
+ * PUT /api/admin/exchange-rates/:currency
+ */
+export const updateExchangeRate = async (req: Request, res: Response) => {
+  try {
+    const currency = String(req.params.currency || "").toUpperCase();
+    if (!isPlanCurrency(currency) || currency === "USD") {
+      return sendError(res, 400, "Unsupported currency, rates are relative to USD");
+    }
+
+    const { rate, roundTo, priceEnding } = req.body;
+    const rateValue = typeof rate === "number" ? String(rate) : rate;
+    if (typeof rateValue !== "string" || !RATE_PATTERN.test(rateValue) || Number(rateValue) <= 0) {
+      return sendError(res, 400, "rate must be a positive number with at most 8 decimals");
+    }
+
+    const roundToValue = roundTo === undefined ? "0.01" : parsePlanPrice(roundTo);
+    if (roundToValue === null || Number(roundToValue) <= 0) {
+      return sendError(res, 400, "roundTo must be a positive amount");
+    }
+
+    let priceEndingValue: string | null = null;
+    if (priceEnding !== undefined && priceEnding !== null) {
+      priceEndingValue = parsePlanPrice(priceEnding);
+      if (priceEndingValue === null || Number(priceEndingValue) >= 1) {
+        return sendError(res, 400, "priceEnding must be between 0 and 0.99");
+      }
+    }
+
+    const before = await prismaClient?.exchangeRate?.findFirst({
+      where: {
+        currency,
+      },
+    });
+
+    const exchangeRate = await prismaClient?.exchangeRate?.upsert({
+      where: {
+        currency,
+      },
+      update: {
+        rate: rateValue,
+        roundTo: roundToValue,
+        priceEnding: priceEndingValue,
+      },
+      create: {
+        currency,
+        rate: rateValue,
+        roundTo: roundToValue,
+        priceEnding: priceEndingValue,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "exchange_rate.updated",
+      targetType: "exchange_rate",
+      targetId: currency,
+      before: before
+        ? {
+            rate: String(before.rate),
+            roundTo: String(before.roundTo),
+            priceEnding: before.priceEnding && String(before.priceEnding),
+          }
+        : null,
+      after: { rate: rateValue, roundTo: roundToValue, priceEnding: priceEndingValue },
+    });
+
+    return sendSuccess(res, exchangeRate, "Exchange rate updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Remove a currency from the FX table; plans without a list price stop being sold in it
+ * DELETE /api/admin/exchange-rates/:currency
+ */
+export const deleteExchangeRate = async (req: Request, res: Response) => {
+  try {
+    const currency = String(req.params.currency || "").toUpperCase();
+    if (!isPlanCurrency(currency)) {
+      return sendError(res, 400, "Unsupported currency");
+    }
+
+    const deleted = await prismaClient?.exchangeRate?.deleteMany({
+      where: {
+        currency,
+      },
+    });
+    if (!deleted?.count) {
+      return sendError(res, 404, "Exchange rate not found");
+    }
+
+    await recordAuditEvent(req, {
+      action: "exchange_rate.deleted",
+      targetType: "exchange_rate",
+      targetId: currency,
+    });
+
+    return sendSuccess(res, null, "Exchange rate deleted successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
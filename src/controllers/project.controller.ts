@@ -0,0 +1,244 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { recordAuditEvent } from "@/services/audit.service";
+import { getWorkspaceMembership, hasWorkspaceRole } from "@/services/workspace.service";
+import type { ProjectSelect } from "prisma/generated/prisma/models";
+
+const projectSelect = {
+  id: true,
+  userId: true,
+  workspaceId: true,
+  name: true,
+  description: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies ProjectSelect;
+
+const validateProjectName = (name: unknown) =>
+  typeof name === "string" && name.trim().length > 0 && name.trim().length <= 100;
+
+const validateDescription = (description: unknown) =>
+  description === undefined ||
+  description === null ||
+  (typeof description === "string" && description.length <= 1000);
+
+// Personal projects of the user, or those of the workspace picked with `X-Workspace-Id`
+const getProjectScope = (req: Request) =>
+  req.workspace?.id
+    ? { workspaceId: req.workspace.id }
+    : { userId: req.userId || "", workspaceId: null };
+
+/**
+ * Find a project the user can see: their own personal project, or one of a workspace they
+ * are a member of. `canManage` is set for the creator and workspace admins.
+ */
+async function findAccessibleProject(projectId: string, userId: string) {
+  const project = await prismaClient?.project?.findFirst({
+    where: {
+      id: projectId,
+    },
+    select: projectSelect,
+  });
+  if (!project) {
+    return null;
+  }
+
+  if (!project.workspaceId) {
+    return project.userId === userId ? { project, canManage: true } : null;
+  }
+
+  const membership = await getWorkspaceMembership(project.workspaceId, userId);
+  if (!membership) {
+    return null;
+  }
+  return {
+    project,
+    canManage: project.userId === userId || hasWorkspaceRole(membership.role, "ADMIN"),
+  };
+}
+
+/**
+ * Projects of the user, or of a workspace with `X-Workspace-Id`
+ * GET /api/project
+ */
+export const getAllProjects = async (req: Request, res: Response) => {
+  try {
+    if (!req?.userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const projects = await prismaClient?.project?.findMany({
+      where: getProjectScope(req),
+      select: projectSelect,
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    return sendSuccess(res, projects, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Create a project, in the workspace picked with `X-Workspace-Id` when there is one
+ * POST /api/project
+ */
+export const createProject = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { name, description } = req.body;
+    if (!validateProjectName(name)) {
+      return sendError(res, 400, "Name must be between 1 and 100 characters");
+    }
+    if (!validateDescription(description)) {
+      return sendError(res, 400, "Description must be at most 1000 characters");
+    }
+
+    const project = await prismaClient?.project?.create({
+      data: {
+        userId,
+        workspaceId: req.workspace?.id || null,
+        name: name.trim(),
+        description: description?.trim() || null,
+      },
+      select: projectSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "project.created",
+      targetType: "project",
+      targetId: project?.id,
+      after: { name: project?.name, workspaceId: project?.workspaceId },
+    });
+
+    return sendSuccess(res, project, "Project created successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Project details
+ * GET /api/project/:projectId
+ */
+export const getProject = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const access = await findAccessibleProject(String(req.params.projectId), userId);
+    if (!access) {
+      return sendError(res, 404, "Project not found");
+    }
+
+    return sendSuccess(res, access.project, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Rename or describe a project - its creator or a workspace admin
+ * PUT /api/project/:projectId
+ */
+export const updateProject = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { name, description } = req.body;
+    const data: { name?: string; description?: string | null } = {};
+    if (name !== undefined) {
+      if (!validateProjectName(name)) {
+        return sendError(res, 400, "Name must be between 1 and 100 characters");
+      }
+      data.name = name.trim();
+    }
+    if (description !== undefined) {
+      if (!validateDescription(description)) {
+        return sendError(res, 400, "Description must be at most 1000 characters");
+      }
+      data.description = description?.trim() || null;
+    }
+    if (Object.keys(data).length === 0) {
+      return sendError(res, 400, "Nothing to update");
+    }
+
+    const access = await findAccessibleProject(String(req.params.projectId), userId);
+    if (!access) {
+      return sendError(res, 404, "Project not found");
+    }
+    if (!access.canManage) {
+      return sendError(res, 403, "Not Authorized");
+    }
+
+    const project = await prismaClient?.project?.update({
+      where: {
+        id: access.project.id,
+      },
+      data,
+      select: projectSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "project.updated",
+      targetType: "project",
+      targetId: access.project.id,
+      before: { name: access.project.name, description: access.project.description },
+      after: { name: project?.name, description: project?.description },
+    });
+
+    return sendSuccess(res, project, "Project updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Delete a project - its creator or a workspace admin
+ * DELETE /api/project/:projectId
+ */
+export const deleteProject = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const access = await findAccessibleProject(String(req.params.projectId), userId);
+    if (!access) {
+      return sendError(res, 404, "Project not found");
+    }
+    if (!access.canManage) {
+      return sendError(res, 403, "Not Authorized");
+    }
+
+    await prismaClient?.project?.delete({
+      where: {
+        id: access.project.id,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "project.deleted",
+      targetType: "project",
+      targetId: access.project.id,
+      before: { name: access.project.name, workspaceId: access.project.workspaceId },
+    });
+
+    return sendSuccess(res, null, "Project deleted successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
@@ -0,0 +1,604 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import {
+  bumpRolePermissionsVersion,
+  bumpUserPermissionsVersion,
+  resolveUserAccess,
+  type PermissionAction,
+} from "@/services/permission.service";
+import { recordAuditEvent } from "@/services/audit.service";
+
+// Roles created by the seed; they can't be renamed or deleted
+const BUILT_IN_ROLES = ["admin", "moderator", "user"];
+const ADMIN_ROLE = "admin";
+
+const PERMISSION_ACTIONS: PermissionAction[] = [
+  "canReadList",
+  "canReadSingle",
+  "canCreate",
+  "canUpdate",
+  "canDelete",
+];
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{1,49}$/;
+
+const permissionSelect = {
+  id: true,
+  canReadList: true,
+  canReadSingle: true,
+  canCreate: true,
+  canUpdate: true,
+  canDelete: true,
+  module: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+// { Projects: "canReadList,canCreate", ... } so the audit diff shows one entry per module
+const toPermissionSnapshot = (
+  permissions: Array<{ module: { name: string } | null } & Record<PermissionAction, boolean>>
+) =>
+  Object.fromEntries(
+    permissions.map((permission) => [
+      permission.module?.name || "",
+      PERMISSION_ACTIONS.filter((action) => permission[action]).join(","),
+    ])
+  );
+
+/**
+ * List roles
+ * GET /api/admin/roles
+ */
+export const getAllRoles = async (req: Request, res: Response) => {
+  try {
+    const roles = await prismaClient?.role?.findMany({
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        _count: {
+          select: {
+            user: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return sendSuccess(
+      res,
+      roles?.map(({ _count, ...role }) => ({
+        ...role,
+        builtIn: BUILT_IN_ROLES.includes(role.name),
+        userCount: _count.user,
+      })),
+      "ok"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Create a custom role, optionally copying the permissions of an existing role
+ * POST /api/admin/roles
+ */
+export const createRole = async (req: Request, res: Response) => {
+  try {
+    const { name, copyFromRoleId } = req.body;
+    if (!name || !NAME_PATTERN.test(name)) {
+      return sendError(
+        res,
+        400,
+        "Name must start with a letter and contain only letters, numbers and underscores"
+      );
+    }
+
+    const existing = await prismaClient?.role?.findFirst({
+      where: {
+        name,
+      },
+    });
+    if (existing) {
+      return sendError(res, 409, "Role already exists");
+    }
+
+    let sourcePermissions: Array<{ moduleId: string } & Record<PermissionAction, boolean>> = [];
+    if (copyFromRoleId) {
+      const sourceRole = await prismaClient?.role?.findFirst({
+        where: {
+          id: copyFromRoleId,
+        },
+        include: {
+          permissions: true,
+        },
+      });
+      if (!sourceRole) {
+        return sendError(res, 404, "Role to copy from not found");
+      }
+      sourcePermissions = sourceRole.permissions;
+    }
+
+    const modules = await prismaClient?.module?.findMany({
+      select: {
+        id: true,
+      },
+    });
+
+    // Every role gets a row per module so the matrix is always complete
+    const role = await prismaClient?.role?.create({
+      data: {
+        name,
+        permissions: {
+          create: (modules || []).map((module) => {
+            const source = sourcePermissions.find((p) => p.moduleId === module.id);
+            return {
+              moduleId: module.id,
+              canReadList: source?.canReadList ?? false,
+              canReadSingle: source?.canReadSingle ?? false,
+              canCreate: source?.canCreate ?? false,
+              canUpdate: source?.canUpdate ?? false,
+              canDelete: source?.canDelete ?? false,
+            };
+          }),
+        },
+      },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "role.created",
+      targetType: "role",
+      targetId: role?.id,
+      after: { name: role?.name },
+      meta: copyFromRoleId ? { copyFromRoleId } : undefined,
+    });
+
+    return sendSuccess(res, role, "Role created successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Rename a custom role
+ * PUT /api/admin/roles/:roleId
+ */
+export const updateRole = async (req: Request, res: Response) => {
+  try {
+    const { roleId } = req.params;
+    const { name } = req.body;
+    if (!roleId) {
+      return sendError(res, 400, "roleId is required");
+    }
+    if (!name || !NAME_PATTERN.test(name)) {
+      return sendError(
+        res,
+        400,
+        "Name must start with a letter and contain only letters, numbers and underscores"
+      );
+    }
+
+    const role = await prismaClient?.role?.findFirst({
+      where: {
+        id: roleId,
+      },
+    });
+    if (!role) {
+      return sendError(res, 404, "Role not found");
+    }
+    if (BUILT_IN_ROLES.includes(role.name)) {
+      return sendError(res, 400, "Built-in roles can't be renamed");
+    }
+
+    const duplicate = await prismaClient?.role?.findFirst({
+      where: {
+        name,
+        id: { not: roleId },
+      },
+    });
+    if (duplicate) {
+      return sendError(res, 409, "Role already exists");
+    }
+
+    const updatedRole = await prismaClient?.role?.update({
+      where: {
+        id: roleId,
+      },
+      data: {
+        name,
+      },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "role.updated",
+      targetType: "role",
+      targetId: roleId,
+      before: { name: role.name },
+      after: { name: updatedRole?.name },
+    });
+
+    return sendSuccess(res, updatedRole, "Role updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Delete a custom role that has no users
+ * DELETE /api/admin/roles/:roleId
+ */
+export const deleteRole = async (req: Request, res: Response) => {
+  try {
+    const { roleId } = req.params;
+    if (!roleId) {
+      return sendError(res, 400, "roleId is required");
+    }
+
+    const role = await prismaClient?.role?.findFirst({
+      where: {
+        id: roleId,
+      },
+      include: {
+        _count: {
+          select: {
+            user: true,
+          },
+        },
+      },
+    });
+    if (!role) {
+      return sendError(res, 404, "Role not found");
+    }
+    if (BUILT_IN_ROLES.includes(role.name)) {
+      return sendError(res, 400, "Built-in roles can't be deleted");
+    }
+    if (role._count.user > 0) {
+      return sendError(res, 409, "Reassign the users of this role before deleting it");
+    }
+
+    await prismaClient?.role?.delete({
+      where: {
+        id: roleId,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "role.deleted",
+      targetType: "role",
+      targetId: roleId,
+      before: { name: role.name },
+    });
+
+    return sendSuccess(res, null, "Role deleted successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * List modules
+ * GET /api/admin/modules
+ */
+export const getAllModules = async (req: Request, res: Response) => {
+  try {
+    const modules = await prismaClient?.module?.findMany({
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return sendSuccess(res, modules, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Register a module - admins get full access to it, every other role none
+ * POST /api/admin/modules
+ */
+export const createModule = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body;
+    if (!name || !NAME_PATTERN.test(name)) {
+      return sendError(
+        res,
+        400,
+        "Name must start with a letter and contain only letters, numbers and underscores"
+      );
+    }
+
+    const existing = await prismaClient?.module?.findFirst({
+      where: {
+        name,
+      },
+    });
+    if (existing) {
+      return sendError(res, 409, "Module already exists");
+    }
+
+    const roles = await prismaClient?.role?.findMany({
+      select: {
+        id: true,
+        name: true,
+      },
+    });
+
+    const module = await prismaClient?.module?.create({
+      data: {
+        name,
+        permissions: {
+          create: (roles || []).map((role) => {
+            const isAdmin = role.name === ADMIN_ROLE;
+            return {
+              roleId: role.id,
+              canReadList: isAdmin,
+              canReadSingle: isAdmin,
+              canCreate: isAdmin,
+              canUpdate: isAdmin,
+              canDelete: isAdmin,
+            };
+          }),
+        },
+      },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "module.created",
+      targetType: "module",
+      targetId: module?.id,
+      after: { name: module?.name },
+    });
+
+    return sendSuccess(res, module, "Module created successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Permission matrix of a role
+ * GET /api/admin/roles/:roleId/permissions
+ */
+export const getRolePermissions = async (req: Request, res: Response) => {
+  try {
+    const { roleId } = req.params;
+    if (!roleId) {
+      return sendError(res, 400, "roleId is required");
+    }
+
+    const role = await prismaClient?.role?.findFirst({
+      where: {
+        id: roleId,
+      },
+      select: {
+        id: true,
+        name: true,
+        permissions: {
+          select: permissionSelect,
+        },
+      },
+    });
+    if (!role) {
+      return sendError(res, 404, "Role not found");
+    }
+
+    return sendSuccess(res, role, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Update the permission matrix of a role
+ * PUT /api/admin/roles/:roleId/permissions
+ * Body: { permissions: [{ module: "Projects", canReadList: true, ... }] }
+ */
+export const updateRolePermissions = async (req: Request, res: Response) => {
+  try {
+    const { roleId } = req.params;
+    const { permissions } = req.body;
+    if (!roleId) {
+      return sendError(res, 400, "roleId is required");
+    }
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      return sendError(res, 400, "permissions must be a non-empty array");
+    }
+
+    const role = await prismaClient?.role?.findFirst({
+      where: {
+        id: roleId,
+      },
+      include: {
+        permissions: {
+          select: permissionSelect,
+        },
+      },
+    });
+    if (!role) {
+      return sendError(res, 404, "Role not found");
+    }
+    // The admin role always has full access so it can never lock itself out
+    if (role.name === ADMIN_ROLE) {
+      return sendError(res, 400, "The admin role permissions can't be changed");
+    }
+
+    const modules = await prismaClient?.module?.findMany({
+      select: {
+        id: true,
+        name: true,
+      },
+    });
+
+    const updates = [];
+    for (const permission of permissions) {
+      const module = modules?.find((m) => m.name === permission?.module);
+      if (!module) {
+        return sendError(res, 400, `Unknown module: ${permission?.module}`);
+      }
+
+      const flags: Partial<Record<PermissionAction, boolean>> = {};
+      for (const action of PERMISSION_ACTIONS) {
+        if (permission[action] !== undefined) {
+          if (typeof permission[action] !== "boolean") {
+            return sendError(res, 400, `${action} must be a boolean`);
+          }
+          flags[action] = permission[action];
+        }
+      }
+
+      updates.push(
+        prismaClient?.permission?.upsert({
+          where: {
+            roleId_moduleId: {
+              roleId,
+              moduleId: module.id,
+            },
+          },
+          create: {
+            roleId,
+            moduleId: module.id,
+            ...flags,
+          },
+          update: flags,
+        })
+      );
+    }
+
+    await prismaClient?.$transaction(updates);
+    await bumpRolePermissionsVersion(roleId);
+
+    const updatedRole = await prismaClient?.role?.findFirst({
+      where: {
+        id: roleId,
+      },
+      select: {
+        id: true,
+        name: true,
+        permissions: {
+          select: permissionSelect,
+        },
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "role.permissions_updated",
+      targetType: "role",
+      targetId: roleId,
+      before: toPermissionSnapshot(role.permissions),
+      after: toPermissionSnapshot(updatedRole?.permissions || []),
+    });
+
+    return sendSuccess(res, updatedRole, "Permissions updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Assign a role to a user
+ * PUT /api/admin/user/:userId/role
+ */
+export const assignUserRole = async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { roleId } = req.body;
+    if (!userId || !roleId) {
+      return sendError(res, 400, "userId and roleId are required");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      include: {
+        role: true,
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+
+    const role = await prismaClient?.role?.findFirst({
+      where: {
+        id: roleId,
+      },
+    });
+    if (!role) {
+      return sendError(res, 404, "Role not found");
+    }
+
+    if (user.roleId === role.id) {
+      return sendSuccess(res, null, "Role assigned successfully");
+    }
+
+    // Only admins can grant or take away the admin role
+    if (role.name === ADMIN_ROLE || user.role?.name === ADMIN_ROLE) {
+      const requester = req?.userId ? await resolveUserAccess(req.userId) : null;
+      if (requester?.roleName !== ADMIN_ROLE) {
+        return sendError(res, 403, "Only admins can change the admin role");
+      }
+    }
+
+    // Never leave the platform without an active admin
+    if (user.role?.name === ADMIN_ROLE && user.status === "ACTIVE") {
+      const activeAdmins = await prismaClient?.user?.count({
+        where: {
+          roleId: user.roleId,
+          status: "ACTIVE",
+        },
+      });
+      if ((activeAdmins || 0) <= 1) {
+        return sendError(res, 400, "Can't remove the role of the last active admin");
+      }
+    }
+
+    await prismaClient?.user?.update({
+      where: {
+        id: userId,
+      },
+      data: {
+        roleId: role.id,
+      },
+    });
+    await bumpUserPermissionsVersion(userId);
+
+    await recordAuditEvent(req, {
+      action: "user.role_changed",
+      targetType: "user",
+      targetId: userId,
+      before: { roleId: user.roleId, role: user.role?.name },
+      after: { roleId: role.id, role: role.name },
+    });
+
+    return sendSuccess(res, null, "Role assigned successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
@@ -3,6 +3,7 @@ import { sendError, sendSuccessUnencrypted } from "@/utils/response";
 import { createMozApiService } from "@/services/mozApi.service";
 import { createDataForSeoApiService } from "@/services/dataForSeoApi.service";
 import { createOpenAiApiService } from "@/services/openAiApi.service";
+import { estimateOpenAiCost } from "@/services/credit.service";
 import { logger } from "@/utils/logger";
 import type { BacklinksSummaryResponse } from "@/types/dataforseo-types";
 
@@ -27,6 +28,10 @@ const openAiService = createOpenAiApiService({
   apiKey: process.env.OPENAI_API_KEY || "",
 });
 
+// DataForSEO reports what each response cost (USD); Moz does not
+const sumProviderCosts = (...responses: Array<{ cost?: number } | null | undefined>) =>
+  responses.reduce((total, response) => total + (response?.cost || 0), 0);
+
 /**
  * SERP Competitors Analysis
  * POST /api/seo/serp-competitors
@@ -141,6 +146,8 @@ export const getSerpCompetitors = async (req: Request, res: Response) => {
     // 5. Calculate overall keyword difficulty based on competitors
     const calculatedKD = calculateKeywordDifficulty(competitors);
 
+    res.locals.usage = { rows: competitors.length, providerCost: sumProviderCosts(serpResults) };
+
     return sendSuccessUnencrypted(
       res,
       {
@@ -182,6 +189,8 @@ export const getBacklinks = async (req: Request, res: Response) => {
     const backlinks = backlinksResult?.links || [];
     const nextOffset = backlinksResult?.offset?.token;
 
+    res.locals.usage = { rows: backlinks.length };
+
     return sendSuccessUnencrypted(
       res,
       {
@@ -296,6 +305,10 @@ export const getDomainMetrics = async (req: Request, res: Response) => {
     const historyData = processBacklinksHistory(backlinksHistory);
     const summaryData = processBacklinksSummary(backlinksSummary);
 
+    res.locals.usage = {
+      providerCost: sumProviderCosts(backlinksSummary, backlinksHistory, anchors),
+    };
+
     return sendSuccessUnencrypted(
       res,
       {
@@ -668,6 +681,12 @@ export const findOpportunities = async (req: Request, res: Response) => {
       };
     });
 
+    res.locals.usage = {
+      rows: processedKeywords.length,
+      providerCost: estimateOpenAiCost(totalTokens) + sumProviderCosts(keywordMetrics),
+      meta: { totalTokens },
+    };
+
     return sendSuccessUnencrypted(
       res,
       {
@@ -820,6 +839,12 @@ export const findOpportunitiesSV = async (req: Request, res: Response) => {
       };
     });
 
+    res.locals.usage = {
+      rows: processedKeywords.length,
+      providerCost: estimateOpenAiCost(totalTokens) + sumProviderCosts(keywordMetrics),
+      meta: { totalTokens },
+    };
+
     return sendSuccessUnencrypted(
       res,
       {
@@ -923,6 +948,11 @@ export const findOpportunitiesLab = async (req: Request, res: Response) => {
       };
     });
 
+    res.locals.usage = {
+      rows: processedKeywords.length,
+      providerCost: sumProviderCosts(suggestionsResponse),
+    };
+
     return sendSuccessUnencrypted(
       res,
       {
@@ -1018,6 +1048,11 @@ export const getDomainMetricsAdvanced = async (req: Request, res: Response) => {
 
     const totalCost = topContentCost + competitorsCost;
 
+    res.locals.usage = {
+      rows: processedTopContent.length + processedCompetitors.length,
+      providerCost: totalCost,
+    };
+
     return sendSuccessUnencrypted(
       res,
       {
@@ -1105,6 +1140,11 @@ export const refineKeywords = async (req: Request, res: Response) => {
       };
     });
 
+    res.locals.usage = {
+      rows: processedKeywords.length,
+      providerCost: sumProviderCosts(keywordMetrics),
+    };
+
     return sendSuccessUnencrypted(
       res,
       {
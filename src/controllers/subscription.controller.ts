@@ -0,0 +1,353 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { paymentService } from "@/lib/payment";
+import { recordAuditEvent } from "@/services/audit.service";
+import { resolvePlanPrice } from "@/services/pricing.service";
+import { getEntitlementUsage } from "@/services/entitlement.service";
+import {
+  addBillingPeriod,
+  calculateProration,
+  findPurchasablePlanVersion,
+  getBillingPrice,
+  getCurrentSubscription,
+  getTrialMs,
+  subscriptionSelect,
+} from "@/services/subscription.service";
+
+/**
+ * Current subscription of the user, null when they are not subscribed
+ * GET /api/user/subscription
+ */
+export const getSubscription = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const subscription = await getCurrentSubscription(userId);
+
+    return sendSuccess(res, subscription || null, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Subscribe to a free plan or start the trial of a paid one (first subscription only).
+ * Paid plans are otherwise bought through POST /api/billing/checkout.
+ * POST /api/user/subscription
+ */
+export const createSubscription = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { planId } = req.body;
+    if (!planId) {
+      return sendError(res, 400, "planId is required");
+    }
+
+    if (await getCurrentSubscription(userId)) {
+      return sendError(res, 409, "You already have a subscription, change its plan instead");
+    }
+
+    const planVersion = await findPurchasablePlanVersion(String(planId));
+    if (!planVersion) {
+      return sendError(res, 404, "Plan not found");
+    }
+
+    const previousSubscriptions = await prismaClient?.subscription?.count({
+      where: {
+        userId,
+      },
+    });
+
+    const now = new Date();
+    const trialMs = getTrialMs();
+    const isFree = planVersion.price.isZero();
+    const isTrial = !isFree && trialMs > 0 && !previousSubscriptions;
+    if (!isFree && !isTrial) {
+      return sendError(res, 402, "Start a checkout to subscribe to this plan");
+    }
+    const periodEnd = isTrial ? new Date(now.getTime() + trialMs) : addBillingPeriod(now);
+
+    const subscription = await prismaClient?.subscription?.create({
+      data: {
+        userId,
+        planId: planVersion.planId,
+        planVersionId: planVersion.id,
+        status: isTrial ? "TRIALING" : "ACTIVE",
+        currentPeriodStart: now,
+        currentPeriodEnd: periodEnd,
+        trialEndsAt: isTrial ? periodEnd : null,
+      },
+      select: subscriptionSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "subscription.created",
+      targetType: "subscription",
+      targetId: subscription?.id,
+      after: {
+        planVersionId: planVersion.id,
+        status: subscription?.status,
+        currentPeriodEnd: subscription?.currentPeriodEnd,
+      },
+    });
+
+    return sendSuccess(res, subscription, "Subscribed successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Switch to another plan. Upgrades apply immediately and the provider invoices the price
+ * difference for the rest of the period; downgrades are applied at the end of the period.
+ * PUT /api/user/subscription
+ */
+export const changeSubscriptionPlan = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { planId } = req.body;
+    if (!planId) {
+      return sendError(res, 400, "planId is required");
+    }
+
+    const current = await getCurrentSubscription(userId);
+    if (!current) {
+      return sendError(res, 404, "You don't have a subscription");
+    }
+    if (current.status === "PAST_DUE") {
+      return sendError(res, 402, "Settle the outstanding payment before changing plans");
+    }
+
+    const planVersion = await findPurchasablePlanVersion(String(planId));
+    if (!planVersion) {
+      return sendError(res, 404, "Plan not found");
+    }
+    if (planVersion.planId === current.planVersion.planId) {
+      return sendError(res, 400, "You are already on this plan");
+    }
+
+    // Prices are compared in the currency the user is billed in
+    const billing = getBillingPrice(current);
+    const targetPrice = await resolvePlanPrice(planVersion, billing.currency);
+    if (!targetPrice) {
+      return sendError(res, 400, `This plan is not available in ${billing.currency}`);
+    }
+
+    const isUpgrade = targetPrice.amount.greaterThan(billing.amount);
+    // Moving from a free plan to a paid one needs a payment method first
+    if (isUpgrade && !current.providerSubscriptionId && current.status !== "TRIALING") {
+      return sendError(res, 402, "Start a checkout to subscribe to this plan");
+    }
+
+    if (!isUpgrade) {
+      const subscription = await prismaClient?.subscription?.update({
+        where: {
+          id: current.id,
+        },
+        data: {
+          pendingPlanVersionId: planVersion.id,
+        },
+        select: subscriptionSelect,
+      });
+
+      await recordAuditEvent(req, {
+        action: "subscription.downgrade_scheduled",
+        targetType: "subscription",
+        targetId: current.id,
+        before: { pendingPlanVersionId: current.pendingPlanVersion?.id },
+        after: { pendingPlanVersionId: planVersion.id },
+        meta: { effectiveAt: current.currentPeriodEnd },
+      });
+
+      return sendSuccess(
+        res,
+        subscription,
+        "Your plan will change at the end of the current billing period"
+      );
+    }
+
+    // Trials are free, so there is nothing to prorate
+    const proration =
+      current.status === "TRIALING"
+        ? null
+        : calculateProration({
+            fromPrice: billing.amount,
+            toPrice: targetPrice.amount,
+            periodStart: current.currentPeriodStart,
+            periodEnd: current.currentPeriodEnd,
+          });
+
+    // The provider bills the new price from now on and invoices the proration, together with
+    // anything still owed from earlier changes. Nothing is changed here when that fails.
+    const isBilled = Boolean(current.providerSubscriptionId);
+    if (current.providerSubscriptionId) {
+      const owed = proration ? proration.plus(current.prorationBalance) : current.prorationBalance;
+      await paymentService.changeSubscriptionPrice(current.providerSubscriptionId, {
+        amount: targetPrice.amount.toFixed(2),
+        currency: targetPrice.currency,
+        description: `${planVersion.name} plan`,
+        prorationAmount: owed.toFixed(2),
+      });
+    }
+
+    const subscription = await prismaClient?.subscription?.update({
+      where: {
+        id: current.id,
+      },
+      data: {
+        planId: planVersion.planId,
+        planVersionId: planVersion.id,
+        pendingPlanVersionId: null,
+        // A price in the plan's own currency needs no override
+        price: targetPrice.source === "base" ? null : targetPrice.amount,
+        currency: targetPrice.source === "base" ? null : targetPrice.currency,
+        // Only what was just invoiced is settled
+        ...(isBilled ? { prorationBalance: { decrement: current.prorationBalance } } : {}),
+      },
+      select: subscriptionSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "subscription.upgraded",
+      targetType: "subscription",
+      targetId: current.id,
+      before: { planVersionId: current.planVersion.id },
+      after: { planVersionId: planVersion.id },
+      meta: { proration: proration?.toString() ?? "0" },
+    });
+
+    return sendSuccess(
+      res,
+      { ...subscription, proration: proration?.toString() ?? "0" },
+      "Plan upgraded successfully"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Cancel at the end of the current period (or trial)
+ * POST /api/user/subscription/cancel
+ */
+export const cancelSubscription = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const current = await getCurrentSubscription(userId);
+    if (!current) {
+      return sendError(res, 404, "You don't have a subscription");
+    }
+    if (current.cancelAtPeriodEnd) {
+      return sendError(res, 400, "Your subscription is already canceled");
+    }
+
+    if (current.providerSubscriptionId) {
+      await paymentService.setCancelAtPeriodEnd(current.providerSubscriptionId, true);
+    }
+
+    const subscription = await prismaClient?.subscription?.update({
+      where: {
+        id: current.id,
+      },
+      data: {
+        cancelAtPeriodEnd: true,
+        canceledAt: new Date(),
+        pendingPlanVersionId: null,
+      },
+      select: subscriptionSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "subscription.canceled",
+      targetType: "subscription",
+      targetId: current.id,
+      meta: { effectiveAt: current.currentPeriodEnd },
+    });
+
+    return sendSuccess(
+      res,
+      subscription,
+      "Your subscription will end at the end of the current billing period"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Undo a cancellation before the period ends
+ * POST /api/user/subscription/resume
+ */
+export const resumeSubscription = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const current = await getCurrentSubscription(userId);
+    if (!current?.cancelAtPeriodEnd) {
+      return sendError(res, 404, "You don't have a canceled subscription");
+    }
+
+    if (current.providerSubscriptionId) {
+      await paymentService.setCancelAtPeriodEnd(current.providerSubscriptionId, false);
+    }
+
+    const subscription = await prismaClient?.subscription?.update({
+      where: {
+        id: current.id,
+      },
+      data: {
+        cancelAtPeriodEnd: false,
+        canceledAt: null,
+      },
+      select: subscriptionSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "subscription.resumed",
+      targetType: "subscription",
+      targetId: current.id,
+    });
+
+    return sendSuccess(res, subscription, "Subscription resumed successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Entitlements of the plan in effect with the current usage of each limit
+ * GET /api/user/entitlements
+ */
+export const getPlanEntitlements = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const entitlements = await getEntitlementUsage({ userId, workspaceId: req.workspace?.id });
+
+    return sendSuccess(res, entitlements, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
@@ -0,0 +1,251 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { encryptData } from "@/utils/encryptDecryptPayload";
+import { verifyPassword } from "@/utils/passwordUtils";
+import { buildOtpAuthUri, generateTotpSecret } from "@/utils/totpUtils";
+import {
+  isTwoFactorEnabled,
+  replaceRecoveryCodes,
+  verifySecondFactor,
+  verifyTotpCode,
+} from "@/services/twoFactor.service";
+import { recordAuditEvent } from "@/services/audit.service";
+
+const TOTP_ISSUER = process.env.TWO_FACTOR_ISSUER || "HRSEO";
+
+/**
+ * Two-factor status
+ * GET /api/auth/2fa
+ */
+export const getTwoFactorStatus = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const enabled = await isTwoFactorEnabled(userId);
+    const recoveryCodesRemaining = await prismaClient?.recoveryCode?.count({
+      where: {
+        userId,
+        usedAt: null,
+      },
+    });
+
+    return sendSuccess(
+      res,
+      { enabled, recoveryCodesRemaining: enabled ? recoveryCodesRemaining : 0 },
+      "ok"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Start TOTP enrolment - returns the secret and otpauth URI for the authenticator app
+ * POST /api/auth/2fa/setup
+ */
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    if (await isTwoFactorEnabled(userId)) {
+      return sendError(res, 409, "Two-factor authentication is already enabled");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        email: true,
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+
+    const secret = generateTotpSecret();
+    const encryptedSecret = await encryptData(secret);
+
+    await prismaClient?.twoFactor?.upsert({
+      where: {
+        userId,
+      },
+      create: {
+        userId,
+        secret: encryptedSecret,
+      },
+      update: {
+        secret: encryptedSecret,
+        enabledAt: null,
+        lastUsedStep: null,
+      },
+    });
+
+    const otpauthUri = buildOtpAuthUri({
+      secret,
+      accountName: user.email || userId,
+      issuer: TOTP_ISSUER,
+    });
+
+    return sendSuccess(res, { secret, otpauthUri }, "Two-factor setup started");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Confirm TOTP enrolment with a first code - returns the recovery codes once
+ * POST /api/auth/2fa/enable
+ */
+export const enableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      return sendError(res, 400, "Code is required");
+    }
+
+    const twoFactor = await prismaClient?.twoFactor?.findFirst({
+      where: {
+        userId,
+      },
+    });
+    if (!twoFactor) {
+      return sendError(res, 400, "Two-factor setup has not been started");
+    }
+    if (twoFactor.enabledAt) {
+      return sendError(res, 409, "Two-factor authentication is already enabled");
+    }
+
+    if (!(await verifyTotpCode(userId, code))) {
+      return sendError(res, 400, "Invalid two-factor code");
+    }
+
+    await prismaClient?.twoFactor?.update({
+      where: {
+        id: twoFactor.id,
+      },
+      data: {
+        enabledAt: new Date(),
+      },
+    });
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+
+    await recordAuditEvent(req, {
+      action: "auth.2fa_enabled",
+      targetType: "user",
+      targetId: userId,
+    });
+
+    return sendSuccess(res, { recoveryCodes }, "Two-factor authentication enabled");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Disable two-factor authentication (requires the password when one is set and a second factor)
+ * POST /api/auth/2fa/disable
+ */
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { password, code, recoveryCode } = req.body;
+
+    if (!(await isTwoFactorEnabled(userId))) {
+      return sendError(res, 400, "Two-factor authentication is not enabled");
+    }
+
+    const emailAccount = await prismaClient?.account?.findFirst({
+      where: {
+        userId,
+        provider: "EMAIL",
+      },
+    });
+    if (emailAccount?.passwordHash) {
+      if (!password || !(await verifyPassword(emailAccount.passwordHash, password))) {
+        return sendError(res, 401, "Invalid password");
+      }
+    }
+
+    if (!(await verifySecondFactor(userId, { code, recoveryCode }))) {
+      return sendError(res, 400, "Invalid two-factor code");
+    }
+
+    await prismaClient?.$transaction([
+      prismaClient?.twoFactor?.deleteMany({
+        where: {
+          userId,
+        },
+      }),
+      prismaClient?.recoveryCode?.deleteMany({
+        where: {
+          userId,
+        },
+      }),
+    ]);
+
+    await recordAuditEvent(req, {
+      action: "auth.2fa_disabled",
+      targetType: "user",
+      targetId: userId,
+    });
+
+    return sendSuccess(res, null, "Two-factor authentication disabled");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Regenerate recovery codes, invalidating the previous ones
+ * POST /api/auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      return sendError(res, 400, "Code is required");
+    }
+
+    if (!(await isTwoFactorEnabled(userId))) {
+      return sendError(res, 400, "Two-factor authentication is not enabled");
+    }
+
+    if (!(await verifyTotpCode(userId, code))) {
+      return sendError(res, 400, "Invalid two-factor code");
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+
+    await recordAuditEvent(req, {
+      action: "auth.recovery_codes_regenerated",
+      targetType: "user",
+      targetId: userId,
+    });
+
+    return sendSuccess(res, { recoveryCodes }, "Recovery codes regenerated");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
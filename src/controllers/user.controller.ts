@@ -1,6 +1,42 @@
 import { type Request, type Response } from "express";
 import { prismaClient } from "@/lib/prismaClient";
 import { sendError, sendSuccess } from "@/utils/response";
+import { logger } from "@/utils/logger";
+import { mailService } from "@/lib/mailer";
+import { hashPassword, validatePassword, verifyPassword } from "@/utils/passwordUtils";
+import { consumeVerificationToken, issueVerificationToken } from "@/utils/verificationTokenUtils";
+import { buildClientUrl, emailChangeMail, emailChangedNoticeMail } from "@/utils/mailTemplates";
+import { recordAuditEvent } from "@/services/audit.service";
+import { scheduleAccountDeletion } from "@/services/accountDeletion.service";
+import { clearAuthCookies } from "@/services/session.service";
+import { forgetUserSessions } from "@/services/permission.service";
+import { getCurrentSubscription } from "@/services/subscription.service";
+import { getCreditSummary } from "@/services/creditGrant.service";
+import { getOwnedWorkspaces } from "@/services/workspace.service";
+
+const THEMES = ["light", "dark", "system"];
+const LOCALE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const profileSelect = {
+  id: true,
+  name: true,
+  email: true,
+  emailVerified: true,
+  pendingEmail: true,
+  avatarUrl: true,
+  locale: true,
+  theme: true,
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+};
 
 export const getSession = async (req: Request, res: Response) => {
   try {
@@ -18,6 +54,10 @@ export const getSession = async (req: Request, res: Response) => {
         name: true,
         email: true,
         avatarUrl: true,
+        emailVerified: true,
+        pendingEmail: true,
+        locale: true,
+        theme: true,
         status: true,
         role: {
           select: {
@@ -44,7 +84,640 @@ export const getSession = async (req: Request, res: Response) => {
     if (!userData) {
       return sendError(res, 404, "User not found");
     }
-    return sendSuccess(res, userData, "ok");
+
+    const subscription = await getCurrentSubscription(userId);
+
+    return sendSuccess(
+      res,
+      {
+        ...userData,
+        subscription: subscription
+          ? {
+              id: subscription.id,
+              status: subscription.status,
+              planId: subscription.planVersion.planId,
+              planName: subscription.planVersion.name,
+              currentPeriodEnd: subscription.currentPeriodEnd,
+              cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+            }
+          : null,
+      },
+      "ok"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Credit balance with its promo and allowance grants, what expires next and the next refill
+ * GET /api/user/credits
+ */
+export const getCredits = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const credits = await getCreditSummary(userId);
+
+    return sendSuccess(res, credits, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Update name and avatar
+ * PUT /api/user/profile
+ */
+export const updateProfile = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { name, avatarUrl } = req.body;
+    const data: { name?: string; avatarUrl?: string | null } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+        return sendError(res, 400, "Name must be between 1 and 100 characters");
+      }
+      data.name = name.trim();
+    }
+    if (avatarUrl !== undefined) {
+      if (avatarUrl !== null && (typeof avatarUrl !== "string" || !isHttpUrl(avatarUrl))) {
+        return sendError(res, 400, "avatarUrl must be a valid URL");
+      }
+      data.avatarUrl = avatarUrl;
+    }
+    if (Object.keys(data).length === 0) {
+      return sendError(res, 400, "Nothing to update");
+    }
+
+    const before = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: profileSelect,
+    });
+    if (!before) {
+      return sendError(res, 404, "User not found");
+    }
+
+    const user = await prismaClient?.user?.update({
+      where: {
+        id: userId,
+      },
+      data,
+      select: profileSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "user.profile_updated",
+      targetType: "user",
+      targetId: userId,
+      before: { name: before.name, avatarUrl: before.avatarUrl },
+      after: { name: user?.name, avatarUrl: user?.avatarUrl },
+    });
+
+    return sendSuccess(res, user, "Profile updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Update locale and theme
+ * PUT /api/user/preferences
+ */
+export const updatePreferences = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { locale, theme } = req.body;
+    const data: { locale?: string; theme?: string } = {};
+
+    if (locale !== undefined) {
+      if (typeof locale !== "string" || !LOCALE_PATTERN.test(locale)) {
+        return sendError(res, 400, "locale must look like 'en' or 'en-US'");
+      }
+      data.locale = locale;
+    }
+    if (theme !== undefined) {
+      if (!THEMES.includes(theme)) {
+        return sendError(res, 400, `theme must be one of ${THEMES.join(", ")}`);
+      }
+      data.theme = theme;
+    }
+    if (Object.keys(data).length === 0) {
+      return sendError(res, 400, "Nothing to update");
+    }
+
+    const user = await prismaClient?.user?.update({
+      where: {
+        id: userId,
+      },
+      data,
+      select: {
+        locale: true,
+        theme: true,
+      },
+    });
+
+    return sendSuccess(res, user, "Preferences updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Change the password - requires the current password and revokes every other session
+ * POST /api/user/change-password
+ */
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { current_password, password, confirm_password } = req.body;
+    if (!current_password || !password || !confirm_password) {
+      return sendError(res, 400, "current_password, password and confirm_password are required");
+    }
+    if (password !== confirm_password) {
+      return sendError(res, 400, "Confirm password is invalid");
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return sendError(res, 400, passwordError);
+    }
+
+    const emailAccount = await prismaClient?.account?.findFirst({
+      where: {
+        userId,
+        provider: "EMAIL",
+      },
+    });
+    if (!emailAccount?.passwordHash) {
+      return sendError(res, 400, "This account has no password");
+    }
+
+    if (!(await verifyPassword(emailAccount.passwordHash, current_password))) {
+      return sendError(res, 401, "Current password is invalid");
+    }
+
+    const hashedPassword = await hashPassword(password);
+    if (!hashedPassword) {
+      return sendError(res, 409, "Failed to hash the password");
+    }
+
+    const [, revokedSessions] = await prismaClient?.$transaction([
+      prismaClient?.account?.update({
+        where: {
+          id: emailAccount.id,
+        },
+        data: {
+          passwordHash: hashedPassword,
+        },
+      }),
+      prismaClient?.session?.deleteMany({
+        where: {
+          userId,
+          ...(req.sessionId ? { id: { not: req.sessionId } } : {}),
+        },
+      }),
+    ]);
+    forgetUserSessions(userId);
+
+    await recordAuditEvent(req, {
+      action: "auth.password_changed",
+      targetType: "user",
+      targetId: userId,
+      meta: { revokedSessions: revokedSessions?.count || 0 },
+    });
+
+    return sendSuccess(res, null, "Password changed successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Request an email change - the new address has to be confirmed before it is used
+ * POST /api/user/change-email
+ */
+export const requestEmailChange = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { email, password } = req.body;
+    const newEmail = typeof email === "string" ? email.trim() : "";
+    if (!EMAIL_PATTERN.test(newEmail)) {
+      return sendError(res, 400, "A valid email is required");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        accounts: {
+          where: {
+            provider: "EMAIL",
+          },
+        },
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+    if (user.email === newEmail) {
+      return sendError(res, 400, "This is already your email address");
+    }
+
+    const passwordHash = user.accounts?.[0]?.passwordHash;
+    if (passwordHash && (!password || !(await verifyPassword(passwordHash, password)))) {
+      return sendError(res, 401, "Invalid password");
+    }
+
+    const existingUser = await prismaClient?.user?.findFirst({
+      where: {
+        email: newEmail,
+      },
+    });
+    if (existingUser) {
+      return sendError(res, 409, "This email is already in use");
+    }
+
+    const verificationToken = await issueVerificationToken({
+      userId: user.id,
+      email: newEmail,
+      type: "EMAIL_CHANGE",
+    });
+    if (!verificationToken?.success || !verificationToken?.data) {
+      return sendError(res, 400, verificationToken?.error || "Error while creating token");
+    }
+
+    await prismaClient?.user?.update({
+      where: {
+        id: user.id,
+      },
+      data: {
+        pendingEmail: newEmail,
+      },
+    });
+
+    try {
+      await mailService.send(
+        emailChangeMail({
+          to: newEmail,
+          name: user.name,
+          url: buildClientUrl(
+            `/auth/confirm-email-change?token=${encodeURIComponent(verificationToken.data.token)}`
+          ),
+          expiresAt: verificationToken.data.expiresAt,
+        })
+      );
+    } catch (error) {
+      logger.error("Email change mail failed", { userId: user.id });
+      // Nobody can confirm a change whose link was never sent, so it is dropped
+      await prismaClient?.$transaction([
+        prismaClient?.verificationToken?.deleteMany({
+          where: {
+            identifier: user.id,
+            type: "EMAIL_CHANGE",
+          },
+        }),
+        prismaClient?.user?.update({
+          where: {
+            id: user.id,
+          },
+          data: {
+            pendingEmail: null,
+          },
+        }),
+      ]);
+      return sendError(
+        res,
+        500,
+        "The confirmation email could not be sent, please try again later"
+      );
+    }
+
+    await recordAuditEvent(req, {
+      action: "user.email_change_requested",
+      targetType: "user",
+      targetId: user.id,
+      meta: { pendingEmail: newEmail },
+    });
+
+    return sendSuccess(res, null, "Please check your new email address to confirm the change");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Confirm an email change with the token sent to the new address
+ * POST /api/user/change-email/confirm
+ */
+export const confirmEmailChange = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+    if (!token) {
+      return sendError(res, 400, "Token is required");
+    }
+
+    const verification = await consumeVerificationToken(token, "EMAIL_CHANGE");
+    if (!verification?.success || !verification?.data) {
+      return sendError(res, 400, verification?.error || "Invalid or expired token");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: verification.data.userId,
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        pendingEmail: true,
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+    // Only the latest requested address can be confirmed
+    if (!user.pendingEmail || user.pendingEmail !== verification.data.email) {
+      return sendError(res, 400, "This email change is no longer pending");
+    }
+
+    const existingUser = await prismaClient?.user?.findFirst({
+      where: {
+        email: user.pendingEmail,
+        id: { not: user.id },
+      },
+    });
+    if (existingUser) {
+      return sendError(res, 409, "This email is already in use");
+    }
+
+    await prismaClient?.user?.update({
+      where: {
+        id: user.id,
+      },
+      data: {
+        email: user.pendingEmail,
+        emailVerified: true,
+        pendingEmail: null,
+      },
+    });
+
+    if (user.email) {
+      try {
+        await mailService.send(
+          emailChangedNoticeMail({ to: user.email, name: user.name, newEmail: user.pendingEmail })
+        );
+      } catch (error) {
+        logger.error("Email change notice failed", { userId: user.id });
+      }
+    }
+
+    await recordAuditEvent(req, {
+      action: "user.email_changed",
+      actorId: user.id,
+      targetType: "user",
+      targetId: user.id,
+      before: { email: user.email },
+      after: { email: user.pendingEmail },
+    });
+
+    return sendSuccess(res, null, "Email address changed successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Download every piece of data we hold about the user as a JSON file (GDPR right of access)
+ * GET /api/user/export
+ */
+export const exportUserData = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        ...profileSelect,
+        credits: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+        role: {
+          select: {
+            name: true,
+          },
+        },
+        accounts: {
+          select: {
+            provider: true,
+            createdAt: true,
+          },
+        },
+        projects: true,
+        usageLogs: {
+          // What a call cost us is not the user's data
+          omit: {
+            providerCost: true,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+        },
+        credit_transactions: {
+          orderBy: {
+            createdAt: "desc",
+          },
+        },
+        sessions: {
+          select: {
+            id: true,
+            ipAddress: true,
+            userAgent: true,
+            lastUsedAt: true,
+            createdAt: true,
+            expiresAt: true,
+          },
+        },
+        apiKeys: {
+          select: {
+            name: true,
+            prefix: true,
+            scopes: true,
+            createdAt: true,
+            lastUsedAt: true,
+            revokedAt: true,
+          },
+        },
+        subscriptions: {
+          select: {
+            status: true,
+            currentPeriodStart: true,
+            currentPeriodEnd: true,
+            trialEndsAt: true,
+            canceledAt: true,
+            endedAt: true,
+            createdAt: true,
+            planVersion: {
+              select: {
+                name: true,
+                version: true,
+                price: true,
+                currency: true,
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+
+    await recordAuditEvent(req, {
+      action: "user.data_exported",
+      targetType: "user",
+      targetId: userId,
+    });
+
+    const {
+      projects,
+      usageLogs,
+      credit_transactions,
+      sessions,
+      apiKeys,
+      subscriptions,
+      ...profile
+    } = user;
+    const exportedAt = new Date();
+    const archive = {
+      exportedAt,
+      profile,
+      projects,
+      usageLogs,
+      creditTransactions: credit_transactions,
+      sessions,
+      apiKeys,
+      subscriptions,
+    };
+
+    // Sent as a plain file download rather than an encrypted API payload
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="hrseo-export-${exportedAt.toISOString().slice(0, 10)}.json"`
+    );
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    return res.status(200).send(JSON.stringify(archive, null, 2));
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Delete the account (GDPR right to erasure). Personal data is anonymised after a grace
+ * period during which support can still restore the account.
+ * POST /api/user/delete-account
+ */
+export const deleteAccount = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { password, confirm } = req.body;
+    if (confirm !== "DELETE") {
+      return sendError(res, 400, 'Type "DELETE" to confirm the account deletion');
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        id: true,
+        role: {
+          select: {
+            name: true,
+          },
+        },
+        accounts: {
+          where: {
+            provider: "EMAIL",
+          },
+        },
+      },
+    });
+    if (!user) {
+      return sendError(res, 404, "User not found");
+    }
+    if (user.role?.name === "admin") {
+      return sendError(res, 400, "Admins must be demoted before deleting their account");
+    }
+
+    // A workspace and its credit pool can't be left without an owner
+    const ownedWorkspaces = await getOwnedWorkspaces(userId);
+    if (ownedWorkspaces.length > 0) {
+      return sendError(
+        res,
+        400,
+        `Transfer the ownership of ${ownedWorkspaces
+          .map((workspace) => `"${workspace.name}"`)
+          .join(", ")} before deleting your account`
+      );
+    }
+
+    const passwordHash = user.accounts?.[0]?.passwordHash;
+    if (passwordHash && (!password || !(await verifyPassword(passwordHash, password)))) {
+      return sendError(res, 401, "Invalid password");
+    }
+
+    const deletionScheduledAt = await scheduleAccountDeletion(userId, "Deleted by the user");
+    clearAuthCookies(res);
+
+    await recordAuditEvent(req, {
+      action: "user.deleted",
+      targetType: "user",
+      targetId: userId,
+      meta: { deletionScheduledAt },
+    });
+
+    return sendSuccess(
+      res,
+      { deletionScheduledAt },
+      "Your account has been deleted. Contact support before the scheduled date to restore it"
+    );
   } catch (error) {
     return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
   }
@@ -0,0 +1,764 @@
+import { type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError, sendSuccess } from "@/utils/response";
+import { logger } from "@/utils/logger";
+import { mailService } from "@/lib/mailer";
+import { buildClientUrl, workspaceInvitationMail } from "@/utils/mailTemplates";
+import { recordAuditEvent } from "@/services/audit.service";
+import {
+  findPendingInvitation,
+  generateInvitationToken,
+  getInvitationExpiryMs,
+  getWorkspaceMembership,
+  hashInvitationToken,
+  outranks,
+} from "@/services/workspace.service";
+import { getGrantedCredits } from "@/services/creditGrant.service";
+import type { WorkspaceRole } from "prisma/generated/prisma/enums";
+import type { WorkspaceSelect } from "prisma/generated/prisma/models";
+
+const INVITABLE_ROLES: WorkspaceRole[] = ["ADMIN", "MEMBER"];
+
+const workspaceSelect = {
+  id: true,
+  name: true,
+  credits: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies WorkspaceSelect;
+
+const validateWorkspaceName = (name: unknown) =>
+  typeof name === "string" && name.trim().length > 0 && name.trim().length <= 100;
+
+/**
+ * Create a workspace - the creator becomes its owner
+ * POST /api/workspace
+ */
+export const createWorkspace = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { name } = req.body;
+    if (!validateWorkspaceName(name)) {
+      return sendError(res, 400, "Name must be between 1 and 100 characters");
+    }
+
+    const workspace = await prismaClient?.workspace?.create({
+      data: {
+        name: name.trim(),
+        members: {
+          create: {
+            userId,
+            role: "OWNER",
+          },
+        },
+      },
+      select: workspaceSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "workspace.created",
+      targetType: "workspace",
+      targetId: workspace?.id,
+      after: { name: workspace?.name },
+    });
+
+    return sendSuccess(res, { ...workspace, role: "OWNER" }, "Workspace created successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Workspaces the user is a member of
+ * GET /api/workspace
+ */
+export const getAllWorkspaces = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const memberships = await prismaClient?.workspaceMember?.findMany({
+      where: {
+        userId,
+      },
+      include: {
+        workspace: {
+          select: workspaceSelect,
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return sendSuccess(
+      res,
+      memberships?.map((membership) => ({ ...membership.workspace, role: membership.role })),
+      "ok"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Workspace details with its members
+ * GET /api/workspace/:workspaceId
+ */
+export const getWorkspace = async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.workspace?.id;
+    if (!workspaceId) {
+      return sendError(res, 404, "Workspace not found");
+    }
+
+    const workspace = await prismaClient?.workspace?.findFirst({
+      where: {
+        id: workspaceId,
+      },
+      select: {
+        ...workspaceSelect,
+        members: {
+          select: {
+            role: true,
+            createdAt: true,
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                avatarUrl: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
+        projects: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            userId: true,
+            createdAt: true,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+        },
+      },
+    });
+
+    return sendSuccess(res, { ...workspace, role: req.workspace?.role }, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Rename a workspace
+ * PUT /api/workspace/:workspaceId
+ */
+export const updateWorkspace = async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.workspace?.id;
+    if (!workspaceId) {
+      return sendError(res, 404, "Workspace not found");
+    }
+
+    const { name } = req.body;
+    if (!validateWorkspaceName(name)) {
+      return sendError(res, 400, "Name must be between 1 and 100 characters");
+    }
+
+    const before = await prismaClient?.workspace?.findFirst({
+      where: {
+        id: workspaceId,
+      },
+      select: workspaceSelect,
+    });
+
+    const workspace = await prismaClient?.workspace?.update({
+      where: {
+        id: workspaceId,
+      },
+      data: {
+        name: name.trim(),
+      },
+      select: workspaceSelect,
+    });
+
+    await recordAuditEvent(req, {
+      action: "workspace.updated",
+      targetType: "workspace",
+      targetId: workspaceId,
+      before: { name: before?.name },
+      after: { name: workspace?.name },
+    });
+
+    return sendSuccess(res, workspace, "Workspace updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Delete a workspace and its projects. Usage logs and credit transactions are kept.
+ * DELETE /api/workspace/:workspaceId
+ */
+export const deleteWorkspace = async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.workspace?.id;
+    if (!workspaceId) {
+      return sendError(res, 404, "Workspace not found");
+    }
+
+    const workspace = await prismaClient?.workspace?.findFirst({
+      where: {
+        id: workspaceId,
+      },
+      select: workspaceSelect,
+    });
+    if (!workspace) {
+      return sendError(res, 404, "Workspace not found");
+    }
+    if (workspace.credits > 0) {
+      return sendError(res, 400, "Use the remaining workspace credits before deleting it");
+    }
+
+    await prismaClient?.workspace?.delete({
+      where: {
+        id: workspaceId,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: "workspace.deleted",
+      targetType: "workspace",
+      targetId: workspaceId,
+      before: { name: workspace.name },
+    });
+
+    return sendSuccess(res, null, "Workspace deleted successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Invite someone by email
+ * POST /api/workspace/:workspaceId/invitations
+ */
+export const createInvitation = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    const workspaceId = req.workspace?.id;
+    const inviterRole = req.workspace?.role;
+    if (!userId || !workspaceId || !inviterRole) {
+      return sendError(res, 404, "Workspace not found");
+    }
+
+    const { email, role = "MEMBER" } = req.body;
+    const inviteEmail = typeof email === "string" ? email.trim() : "";
+    if (!inviteEmail) {
+      return sendError(res, 400, "Email is required");
+    }
+    if (!INVITABLE_ROLES.includes(role)) {
+      return sendError(res, 400, `role must be one of ${INVITABLE_ROLES.join(", ")}`);
+    }
+    if (!outranks(inviterRole, role)) {
+      return sendError(res, 403, "You can't invite members with this role");
+    }
+
+    const existingMember = await prismaClient?.workspaceMember?.findFirst({
+      where: {
+        workspaceId,
+        user: {
+          email: { equals: inviteEmail, mode: "insensitive" },
+        },
+      },
+    });
+    if (existingMember) {
+      return sendError(res, 409, "This user is already a member of the workspace");
+    }
+
+    const workspace = await prismaClient?.workspace?.findFirst({
+      where: {
+        id: workspaceId,
+      },
+      select: {
+        name: true,
+      },
+    });
+    const inviter = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        name: true,
+      },
+    });
+
+    const token = generateInvitationToken();
+    const expiresAt = new Date(Date.now() + getInvitationExpiryMs());
+
+    // Inviting the same address again replaces the pending invitation
+    const [, invitation] = await prismaClient?.$transaction([
+      prismaClient?.workspaceInvitation?.updateMany({
+        where: {
+          workspaceId,
+          email: { equals: inviteEmail, mode: "insensitive" },
+          acceptedAt: null,
+          declinedAt: null,
+          revokedAt: null,
+        },
+        data: {
+          revokedAt: new Date(),
+        },
+      }),
+      prismaClient?.workspaceInvitation?.create({
+        data: {
+          workspaceId,
+          email: inviteEmail,
+          role,
+          tokenHash: hashInvitationToken(token),
+          invitedById: userId,
+          expiresAt,
+        },
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          expiresAt: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+
+    try {
+      await mailService.send(
+        workspaceInvitationMail({
+          to: inviteEmail,
+          workspaceName: workspace?.name || "",
+          inviterName: inviter?.name,
+          url: buildClientUrl(`/workspace/invitation?token=${encodeURIComponent(token)}`),
+          expiresAt,
+        })
+      );
+    } catch (error) {
+      logger.error("Workspace invitation mail failed", {
+        workspaceId,
+        invitationId: invitation.id,
+      });
+    }
+
+    await recordAuditEvent(req, {
+      action: "workspace.member_invited",
+      targetType: "workspace",
+      targetId: workspaceId,
+      meta: { invitationId: invitation.id, email: inviteEmail, role },
+    });
+
+    return sendSuccess(res, invitation, "Invitation sent successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Pending invitations of a workspace
+ * GET /api/workspace/:workspaceId/invitations
+ */
+export const getAllInvitations = async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.workspace?.id;
+    if (!workspaceId) {
+      return sendError(res, 404, "Workspace not found");
+    }
+
+    const invitations = await prismaClient?.workspaceInvitation?.findMany({
+      where: {
+        workspaceId,
+        acceptedAt: null,
+        declinedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        invitedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    return sendSuccess(res, invitations, "ok");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Revoke a pending invitation
+ * DELETE /api/workspace/:workspaceId/invitations/:invitationId
+ */
+export const revokeInvitation = async (req: Request, res: Response) => {
+  try {
+    const workspaceId = req.workspace?.id;
+    const { invitationId } = req.params;
+    if (!workspaceId || !invitationId) {
+      return sendError(res, 400, "invitationId is required");
+    }
+
+    const revoked = await prismaClient?.workspaceInvitation?.updateMany({
+      where: {
+        id: invitationId,
+        workspaceId,
+        acceptedAt: null,
+        declinedAt: null,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+    if (!revoked?.count) {
+      return sendError(res, 404, "Invitation not found");
+    }
+
+    await recordAuditEvent(req, {
+      action: "workspace.invitation_revoked",
+      targetType: "workspace",
+      targetId: workspaceId,
+      meta: { invitationId },
+    });
+
+    return sendSuccess(res, null, "Invitation revoked successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Accept an invitation - it must have been sent to the user's verified email
+ * POST /api/workspace/invitations/accept
+ */
+export const acceptInvitation = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized request");
+    }
+
+    const { token } = req.body;
+    if (!token) {
+      return sendError(res, 400, "Token is required");
+    }
+
+    const invitation = await findPendingInvitation(token);
+    if (!invitation) {
+      return sendError(res, 400, "Invalid or expired invitation");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        email: true,
+        emailVerified: true,
+      },
+    });
+    if (
+      !user?.email ||
+      !user.emailVerified ||
+      user.email.toLowerCase() !== invitation.email.toLowerCase()
+    ) {
+      return sendError(res, 403, "This invitation was sent to a different email address");
+    }
+
+    if (await getWorkspaceMembership(invitation.workspaceId, userId)) {
+      return sendError(res, 409, "You are already a member of this workspace");
+    }
+
+    const accepted = await prismaClient?.$transaction(async (tx) => {
+      // Conditional update so an invitation can only be used once
+      const updated = await tx.workspaceInvitation.updateMany({
+        where: {
+          id: invitation.id,
+          acceptedAt: null,
+          declinedAt: null,
+          revokedAt: null,
+        },
+        data: {
+          acceptedAt: new Date(),
+        },
+      });
+      if (!updated.count) {
+        return false;
+      }
+
+      await tx.workspaceMember.create({
+        data: {
+          workspaceId: invitation.workspaceId,
+          userId,
+          role: invitation.role,
+        },
+      });
+      return true;
+    });
+    if (!accepted) {
+      return sendError(res, 400, "Invalid or expired invitation");
+    }
+
+    await recordAuditEvent(req, {
+      action: "workspace.member_joined",
+      targetType: "workspace",
+      targetId: invitation.workspaceId,
+      meta: { invitationId: invitation.id, role: invitation.role },
+    });
+
+    return sendSuccess(
+      res,
+      { ...invitation.workspace, role: invitation.role },
+      "Invitation accepted successfully"
+    );
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Decline an invitation
+ * POST /api/workspace/invitations/decline
+ */
+export const declineInvitation = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+    if (!token) {
+      return sendError(res, 400, "Token is required");
+    }
+
+    const invitation = await findPendingInvitation(token);
+    if (!invitation) {
+      return sendError(res, 400, "Invalid or expired invitation");
+    }
+
+    await prismaClient?.workspaceInvitation?.updateMany({
+      where: {
+        id: invitation.id,
+        acceptedAt: null,
+        declinedAt: null,
+      },
+      data: {
+        declinedAt: new Date(),
+      },
+    });
+
+    return sendSuccess(res, null, "Invitation declined");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Change the role of a member. Giving OWNER transfers the ownership.
+ * PUT /api/workspace/:workspaceId/members/:userId
+ */
+export const updateMemberRole = async (req: Request, res: Response) => {
+  try {
+    const requesterId = req?.userId;
+    const workspaceId = req.workspace?.id;
+    const { userId } = req.params;
+    const { role } = req.body;
+    if (!requesterId || !workspaceId || !userId) {
+      return sendError(res, 400, "userId is required");
+    }
+    if (!["OWNER", ...INVITABLE_ROLES].includes(role)) {
+      return sendError(res, 400, "role must be one of OWNER, ADMIN, MEMBER");
+    }
+    if (userId === requesterId) {
+      return sendError(res, 400, "You can't change your own role");
+    }
+
+    const member = await getWorkspaceMembership(workspaceId, userId);
+    if (!member) {
+      return sendError(res, 404, "Member not found");
+    }
+
+    if (role === "OWNER") {
+      // The current owner steps down to admin
+      await prismaClient?.$transaction([
+        prismaClient?.workspaceMember?.update({
+          where: {
+            id: member.id,
+          },
+          data: {
+            role: "OWNER",
+          },
+        }),
+        prismaClient?.workspaceMember?.updateMany({
+          where: {
+            workspaceId,
+            userId: requesterId,
+          },
+          data: {
+            role: "ADMIN",
+          },
+        }),
+      ]);
+    } else {
+      await prismaClient?.workspaceMember?.update({
+        where: {
+          id: member.id,
+        },
+        data: {
+          role,
+        },
+      });
+    }
+
+    await recordAuditEvent(req, {
+      action: "workspace.member_role_changed",
+      targetType: "workspace",
+      targetId: workspaceId,
+      before: { userId, role: member.role },
+      after: { userId, role },
+    });
+
+    return sendSuccess(res, null, "Member role updated successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Remove a member, or leave the workspace when removing yourself
+ * DELETE /api/workspace/:workspaceId/members/:userId
+ */
+export const removeMember = async (req: Request, res: Response) => {
+  try {
+    const requesterId = req?.userId;
+    const workspaceId = req.workspace?.id;
+    const requesterRole = req.workspace?.role;
+    const { userId } = req.params;
+    if (!requesterId || !workspaceId || !requesterRole || !userId) {
+      return sendError(res, 400, "userId is required");
+    }
+
+    const member = await getWorkspaceMembership(workspaceId, userId);
+    if (!member) {
+      return sendError(res, 404, "Member not found");
+    }
+
+    const isLeaving = userId === requesterId;
+    if (isLeaving && member.role === "OWNER") {
+      return sendError(res, 400, "Transfer the ownership before leaving the workspace");
+    }
+    if (!isLeaving && !outranks(requesterRole, member.role)) {
+      return sendError(res, 403, "You can't remove this member");
+    }
+
+    await prismaClient?.workspaceMember?.delete({
+      where: {
+        id: member.id,
+      },
+    });
+
+    await recordAuditEvent(req, {
+      action: isLeaving ? "workspace.member_left" : "workspace.member_removed",
+      targetType: "workspace",
+      targetId: workspaceId,
+      meta: { userId, role: member.role },
+    });
+
+    return sendSuccess(res, null, isLeaving ? "You left the workspace" : "Member removed");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
+
+/**
+ * Move purchased credits from the user's own balance into the shared workspace pool. Credits
+ * of promo grants and the plan allowance can't be moved since the pool never expires any.
+ * POST /api/workspace/:workspaceId/credits
+ */
+export const transferCreditsToWorkspace = async (req: Request, res: Response) => {
+  try {
+    const userId = req?.userId;
+    const workspaceId = req.workspace?.id;
+    if (!userId || !workspaceId) {
+      return sendError(res, 404, "Workspace not found");
+    }
+
+    const amount = Number(req.body?.amount);
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return sendError(res, 400, "amount must be a positive integer");
+    }
+
+    const transferred = await prismaClient?.$transaction(async (tx) => {
+      // Granted credits stay with the user so they still lapse; only the rest can be moved.
+      // Conditional decrement so that part can never go negative.
+      const granted = await getGrantedCredits(tx, userId);
+      const debited = await tx.user.updateMany({
+        where: {
+          id: userId,
+          credits: { gte: amount + granted },
+        },
+        data: {
+          credits: { decrement: amount },
+        },
+      });
+      if (!debited.count) {
+        return false;
+      }
+
+      await tx.workspace.update({
+        where: {
+          id: workspaceId,
+        },
+        data: {
+          credits: { increment: amount },
+        },
+      });
+      await tx.creditTransaction.createMany({
+        data: [
+          { userId, amount: -amount, reason: "workspace_transfer" },
+          { userId, workspaceId, amount, reason: "workspace_transfer" },
+        ],
+      });
+      return true;
+    });
+    if (!transferred) {
+      return sendError(res, 400, "Not enough credits outside of promo and plan grants");
+    }
+
+    await recordAuditEvent(req, {
+      action: "workspace.credits_transferred",
+      targetType: "workspace",
+      targetId: workspaceId,
+      meta: { amount },
+    });
+
+    return sendSuccess(res, null, "Credits transferred successfully");
+  } catch (error) {
+    return sendError(res, 400, error instanceof Error ? error.message : "Unknown error");
+  }
+};
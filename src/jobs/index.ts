@@ -0,0 +1,69 @@
+import { logger } from "@/utils/logger";
+import { parseTimeString } from "@/utils/helperFunctions";
+import { anonymiseDueAccounts } from "@/services/accountDeletion.service";
+import { advanceSubscriptions } from "@/services/subscription.service";
+import { refreshCreditGrants } from "@/services/creditGrant.service";
+import { releaseStaleCreditHolds } from "@/services/credit.service";
+
+interface Job {
+  name: string;
+  interval: () => string;
+  run: () => Promise<unknown>;
+}
+
+const jobs: Job[] = [
+  {
+    name: "anonymise-deleted-accounts",
+    interval: () => process.env.ACCOUNT_ANONYMISE_INTERVAL || "1h",
+    run: anonymiseDueAccounts,
+  },
+  {
+    name: "advance-subscriptions",
+    interval: () => process.env.SUBSCRIPTION_RENEWAL_INTERVAL || "15m",
+    run: advanceSubscriptions,
+  },
+  {
+    name: "refresh-credit-grants",
+    interval: () => process.env.CREDIT_ALLOWANCE_INTERVAL || "15m",
+    run: refreshCreditGrants,
+  },
+  {
+    name: "release-stale-credit-holds",
+    interval: () => process.env.CREDIT_HOLD_RELEASE_INTERVAL || "15m",
+    run: releaseStaleCreditHolds,
+  },
+];
+
+const runJob = async (job: Job, running: Set<string>) => {
+  // Skip a tick if the previous run is still going
+  if (running.has(job.name)) {
+    return;
+  }
+  running.add(job.name);
+  try {
+    const result = await job.run();
+    logger.info("Job Completed", { job: job.name, result });
+  } catch (error) {
+    logger.error("Job Error", {
+      job: job.name,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  } finally {
+    running.delete(job.name);
+  }
+};
+
+// In-process scheduler for periodic maintenance jobs; set JOBS_ENABLED=false on
+// instances that should not run them
+export function startJobs() {
+  if (process.env.JOBS_ENABLED === "false") {
+    return;
+  }
+
+  const running = new Set<string>();
+  for (const job of jobs) {
+    const timer = setInterval(() => runJob(job, running), parseTimeString(job.interval()));
+    timer.unref();
+    logger.info("Job Scheduled", { job: job.name, interval: job.interval() });
+  }
+}
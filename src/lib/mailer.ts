@@ -0,0 +1,9 @@
+import { createMailService } from "@/services/mail.service";
+
+export const mailService = createMailService({
+  from: process.env.MAIL_FROM || "HRSEO <no-reply@hrseo.local>",
+  transport: (process.env.MAIL_TRANSPORT as "console" | "file" | "http") || "console",
+  fileDir: process.env.MAIL_FILE_DIR,
+  httpUrl: process.env.MAIL_HTTP_URL,
+  httpApiKey: process.env.MAIL_HTTP_API_KEY,
+});
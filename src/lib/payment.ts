@@ -0,0 +1,18 @@
+import { createPaymentService } from "@/services/payment.service";
+import { buildClientUrl } from "@/utils/mailTemplates";
+
+// Throws at startup when PAYMENT_PROVIDER is missing or its settings are incomplete
+export const paymentService = createPaymentService({
+  provider: process.env.PAYMENT_PROVIDER as "fake" | "http",
+  webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET,
+  webhookTolerance: Number(process.env.PAYMENT_WEBHOOK_TOLERANCE) || undefined,
+  checkoutUrl: process.env.PAYMENT_FAKE_CHECKOUT_URL || buildClientUrl("/billing/fake-checkout"),
+  httpUrl: process.env.PAYMENT_HTTP_URL,
+  httpApiKey: process.env.PAYMENT_HTTP_API_KEY,
+});
+
+// Completing fake checkouts without a payment is opt-in, never implied by the provider alone
+export const fakeCheckoutEnabled =
+  paymentService.providerName === "fake" &&
+  process.env.PAYMENT_FAKE_CHECKOUT_ENABLED === "true" &&
+  process.env.NODE_ENV !== "production";
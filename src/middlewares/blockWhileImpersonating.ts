@@ -0,0 +1,11 @@
+import { sendError } from "@/utils/response";
+import { type NextFunction, type Request, type Response } from "express";
+
+// Sensitive account actions (credentials, 2FA, sessions, API keys, billing) are off limits
+// to an admin acting as the user
+export const blockWhileImpersonating = (req: Request, res: Response, next: NextFunction) => {
+  if (req.impersonatorId) {
+    return sendError(res, 403, "This action is not available while impersonating a user");
+  }
+  next();
+};
@@ -0,0 +1,17 @@
+import { sendError } from "@/utils/response";
+import { type NextFunction, type Request, type Response } from "express";
+
+// Requests authenticated with an API key may only reach modules the key is scoped to.
+// Cookie sessions are not affected.
+export const checkApiKeyScope =
+  (module: string) => async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey) {
+      return next();
+    }
+
+    if (!req.apiKey.scopes.includes(module)) {
+      return sendError(res, 403, `API key is not scoped to ${module}`);
+    }
+
+    next();
+  };
@@ -1,10 +1,14 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { resolveUserAccess } from "@/services/permission.service";
+import { hashApiKey } from "@/utils/apiKeyUtils";
+import { extractAccessToken, extractRefreshToken } from "@/utils/helperFunctions";
 import { sendError } from "@/utils/response";
 import { verifyToken } from "@/utils/tokenUtils";
 import { type NextFunction, type Request, type Response } from "express";
 
 export const checkAuthentication = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const accessToken = req.cookies.access_token;
+    const accessToken = extractAccessToken(req);
 
     if (!accessToken) {
       return sendError(res, 401, "Unauthorized");
@@ -16,21 +20,77 @@ export const checkAuthentication = async (req: Request, res: Response, next: Nex
       return sendError(res, 401, "Unauthorized");
     }
 
-    req.userId = accessTokenVerification?.data?.userId;
+    // Suspended or deleted users, and revoked sessions, lose access immediately, not when
+    // the token expires
+    const userId = accessTokenVerification?.data?.userId;
+    const sessionId = accessTokenVerification?.data?.sessionId;
+    const access = userId && sessionId ? await resolveUserAccess(userId, sessionId) : null;
+    if (!access || access.status !== "ACTIVE") {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    // Impersonation sessions can be stopped at any time and end when the admin loses access
+    const impersonatorId = accessTokenVerification?.data?.impersonatorId;
+    if (impersonatorId) {
+      const impersonationSession = await prismaClient?.session?.findFirst({
+        where: {
+          id: sessionId,
+          userId,
+          impersonatorId,
+          expiresAt: { gt: new Date() },
+        },
+        select: {
+          id: true,
+        },
+      });
+      const impersonator = await resolveUserAccess(impersonatorId);
+      if (
+        !impersonationSession ||
+        impersonator?.status !== "ACTIVE" ||
+        impersonator?.roleName !== "admin"
+      ) {
+        return sendError(res, 401, "Impersonation session ended");
+      }
+      req.impersonatorId = impersonatorId;
+    }
+
+    req.userId = userId;
     req.role = accessTokenVerification?.data?.role;
+    req.sessionId = sessionId;
     next();
   } catch (error) {
     return sendError(res, 401, "Unauthorized");
   }
 };
 
+// Identifies the user when a valid access token is sent, but lets anonymous requests through
+export const optionalAuthentication = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const accessToken = extractAccessToken(req);
+    if (accessToken) {
+      const accessTokenVerification = await verifyToken(accessToken, "access_token");
+      const userId = accessTokenVerification?.success
+        ? accessTokenVerification?.data?.userId
+        : undefined;
+      const access = userId ? await resolveUserAccess(userId) : null;
+      if (access?.status === "ACTIVE") {
+        req.userId = userId;
+        req.role = accessTokenVerification?.data?.role;
+      }
+    }
+  } catch (error) {
+    // Treated as anonymous
+  }
+  next();
+};
+
 export const checkAuthenticationRefresh = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const refreshToken = req.cookies.refresh_token;
+    const refreshToken = extractRefreshToken(req);
 
     if (!refreshToken) {
       return sendError(res, 401, "Unauthorized");
@@ -44,6 +104,67 @@ export const checkAuthenticationRefresh = async (
 
     req.userId = refreshTokenVerification?.data?.userId;
     req.role = refreshTokenVerification?.data?.role;
+    req.refreshToken = refreshToken;
+    next();
+  } catch (error) {
+    return sendError(res, 401, "Unauthorized");
+  }
+};
+
+// Only write lastUsedAt when it is older than this, to avoid a write on every request
+const API_KEY_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Accepts a personal API key through the x-api-key header, falling back to the user session
+export const checkAuthenticationOrApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const apiKeyHeader = req.get("x-api-key");
+  if (!apiKeyHeader) {
+    return checkAuthentication(req, res, next);
+  }
+
+  try {
+    const apiKey = await prismaClient?.apiKey?.findFirst({
+      where: {
+        keyHash: hashApiKey(apiKeyHeader),
+        revokedAt: null,
+      },
+      include: {
+        user: {
+          select: {
+            status: true,
+          },
+        },
+      },
+    });
+
+    if (!apiKey || apiKey.user?.status !== "ACTIVE") {
+      return sendError(res, 401, "Invalid API key");
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      return sendError(res, 401, "API key expired");
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      Date.now() - apiKey.lastUsedAt.getTime() > API_KEY_LAST_USED_RESOLUTION_MS
+    ) {
+      prismaClient?.apiKey
+        ?.update({
+          where: {
+            id: apiKey.id,
+          },
+          data: {
+            lastUsedAt: new Date(),
+          },
+        })
+        .catch(() => undefined);
+    }
+
+    req.userId = apiKey.userId;
+    req.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
     next();
   } catch (error) {
     return sendError(res, 401, "Unauthorized");
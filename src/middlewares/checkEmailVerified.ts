@@ -0,0 +1,43 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { sendError } from "@/utils/response";
+import { type NextFunction, type Request, type Response } from "express";
+
+// none        - unverified accounts have full access
+// restrict    - unverified accounts cannot use routes guarded by checkEmailVerified
+// block_login - unverified accounts cannot log in at all
+export type EmailVerificationPolicy = "none" | "restrict" | "block_login";
+
+export const getEmailVerificationPolicy = (): EmailVerificationPolicy => {
+  const policy = process.env.EMAIL_VERIFICATION_POLICY;
+  return policy === "restrict" || policy === "block_login" ? policy : "none";
+};
+
+export const checkEmailVerified = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (getEmailVerificationPolicy() === "none") {
+      return next();
+    }
+
+    const userId = req.userId;
+    if (!userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const user = await prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        emailVerified: true,
+      },
+    });
+
+    if (!user?.emailVerified) {
+      return sendError(res, 403, "Please verify your email address to use this feature");
+    }
+
+    next();
+  } catch (error) {
+    return sendError(res, 401, "Unauthorized");
+  }
+};
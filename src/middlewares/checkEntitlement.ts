@@ -0,0 +1,105 @@
+import {
+  getEntitlements,
+  getLimitUsage,
+  startOfNextMonth,
+  type CountedLimit,
+  type EntitlementScope,
+} from "@/services/entitlement.service";
+import { sendError, sendLimitExceeded } from "@/utils/response";
+import { type NextFunction, type Request, type Response } from "express";
+
+const LIMIT_LABELS: Record<CountedLimit, string> = {
+  maxProjects: "projects",
+  monthlySeoLookups: "SEO lookups this month",
+  maxWorkspaceMembers: "workspace members",
+};
+
+const getScope = (req: Request): EntitlementScope => ({
+  userId: req.userId || "",
+  workspaceId: req.workspace?.id,
+});
+
+// Resolved once per request; inside a workspace the owner's plan applies
+async function loadEntitlements(req: Request) {
+  if (!req.entitlements) {
+    req.entitlements = await getEntitlements(getScope(req));
+  }
+  return req.entitlements;
+}
+
+// Rejects the request once the plan's `limit` is used up
+export const checkPlanLimit =
+  (limit: CountedLimit) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.userId) {
+        return sendError(res, 401, "Unauthorized");
+      }
+
+      const allowed = (await loadEntitlements(req))[limit];
+      if (allowed === null) {
+        return next();
+      }
+
+      const usage = await getLimitUsage(limit, getScope(req));
+      if (usage >= allowed) {
+        return sendLimitExceeded(
+          res,
+          `Your plan allows ${allowed} ${LIMIT_LABELS[limit]}, upgrade to get more`,
+          {
+            limit,
+            allowed,
+            usage,
+            ...(limit === "monthlySeoLookups" ? { resetsAt: startOfNextMonth() } : {}),
+          }
+        );
+      }
+
+      next();
+    } catch (error) {
+      return sendError(res, 500, "Failed to check plan limits");
+    }
+  };
+
+// Rejects modules the plan doesn't include
+export const checkPlanModule =
+  (module: string) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.userId) {
+        return sendError(res, 401, "Unauthorized");
+      }
+
+      const { allowedModules } = await loadEntitlements(req);
+      if (allowedModules && !allowedModules.includes(module)) {
+        return sendLimitExceeded(res, `Your plan doesn't include ${module}`, {
+          module,
+          allowedModules,
+        });
+      }
+
+      next();
+    } catch (error) {
+      return sendError(res, 500, "Failed to check plan limits");
+    }
+  };
+
+// Creating API keys, and every request made with one, needs a plan with API access
+export const checkPlanApiAccess = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const { apiAccess } = await loadEntitlements(req);
+    if (!apiAccess) {
+      return sendLimitExceeded(res, "Your plan doesn't include API access", { apiAccess });
+    }
+
+    next();
+  } catch (error) {
+    return sendError(res, 500, "Failed to check plan limits");
+  }
+};
+
+// Same check for routes that also serve cookie sessions: only API key requests need API access
+export const checkApiKeyPlanAccess = (req: Request, res: Response, next: NextFunction) =>
+  req.apiKey ? checkPlanApiAccess(req, res, next) : next();
@@ -0,0 +1,52 @@
+import { getWorkspaceMembership, hasWorkspaceRole } from "@/services/workspace.service";
+import { sendError } from "@/utils/response";
+import { type NextFunction, type Request, type Response } from "express";
+import type { WorkspaceRole } from "prisma/generated/prisma/enums";
+
+// Requires the user to be a member of the workspace in `:workspaceId` with at least `minRole`
+export const checkWorkspaceRole =
+  (minRole: WorkspaceRole = "MEMBER") =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const workspaceId = req.params.workspaceId;
+      if (!req.userId || !workspaceId) {
+        return sendError(res, 401, "Unauthorized");
+      }
+
+      const membership = await getWorkspaceMembership(String(workspaceId), req.userId);
+      if (!membership) {
+        return sendError(res, 404, "Workspace not found");
+      }
+      if (!hasWorkspaceRole(membership.role, minRole)) {
+        return sendError(res, 403, "Not Authorized");
+      }
+
+      req.workspace = { id: membership.workspaceId, role: membership.role };
+      next();
+    } catch (error) {
+      return sendError(res, 401, "Unauthorized");
+    }
+  };
+
+// Optional `X-Workspace-Id` header selecting the workspace (and credit pool) a request works in
+export const resolveWorkspaceContext = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const workspaceId = req.get("x-workspace-id");
+    if (!workspaceId) {
+      return next();
+    }
+    if (!req.userId) {
+      return sendError(res, 401, "Unauthorized");
+    }
+
+    const membership = await getWorkspaceMembership(workspaceId, req.userId);
+    if (!membership) {
+      return sendError(res, 403, "You are not a member of this workspace");
+    }
+
+    req.workspace = { id: membership.workspaceId, role: membership.role };
+    next();
+  } catch (error) {
+    return sendError(res, 401, "Unauthorized");
+  }
+};
@@ -0,0 +1,91 @@
+import {
+  calculateCredits,
+  commitCredits,
+  getCreditBalance,
+  getCreditPrice,
+  getReservedCredits,
+  releaseCredits,
+  reserveCredits,
+  type CreditPool,
+} from "@/services/credit.service";
+import { logger } from "@/utils/logger";
+import { sendError } from "@/utils/response";
+import { type NextFunction, type Request, type Response } from "express";
+
+// Reserves the credits of a call before the handler reaches the providers. A successful
+// response charges the final price and logs the usage, an error response or aborted request
+// releases the reservation. Handlers report rows and provider cost through `res.locals.usage`.
+export const meterCredits =
+  (tool: string, action: string) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.userId) {
+        return sendError(res, 401, "Unauthorized");
+      }
+
+      const pool: CreditPool = { userId: req.userId, workspaceId: req.workspace?.id };
+      const price = await getCreditPrice(tool, action);
+      const reserved = getReservedCredits(price);
+
+      const hold = await reserveCredits(pool, reserved, { tool, action });
+      if (!hold) {
+        const balance = await getCreditBalance(pool);
+        return sendError(
+          res,
+          402,
+          `Not enough credits: this request needs ${reserved} credits and the ${
+            pool.workspaceId ? "workspace" : "account"
+          } balance is ${balance}`
+        );
+      }
+
+      let settled = false;
+      const settle = async () => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+
+        if (!res.writableFinished || res.statusCode >= 400) {
+          await releaseCredits(pool, hold);
+          return;
+        }
+
+        const usage = res.locals.usage || {};
+        try {
+          await commitCredits(pool, hold, {
+            tool,
+            action,
+            credits: calculateCredits(price, usage),
+            providerCost: usage.providerCost,
+            meta: {
+              ...(req.apiKey ? { apiKeyId: req.apiKey.id } : {}),
+              ...(req.impersonatorId ? { impersonatorId: req.impersonatorId } : {}),
+              ...(usage.rows !== undefined ? { rows: usage.rows } : {}),
+              ...usage.meta,
+            },
+          });
+        } catch (error) {
+          // The call was not recorded, so it is not charged either
+          await releaseCredits(pool, hold);
+          throw error;
+        }
+      };
+
+      const onDone = () =>
+        settle().catch((error) =>
+          logger.error("Failed to settle credits", {
+            userId: pool.userId,
+            workspaceId: pool.workspaceId,
+            tool,
+            action,
+            error: error instanceof Error ? error.message : "Unknown error",
+          })
+        );
+      res.once("finish", onDone);
+      res.once("close", onDone);
+
+      next();
+    } catch (error) {
+      return sendError(res, 500, "Failed to reserve credits");
+    }
+  };
@@ -1,4 +1,46 @@
-import { getAllUsers } from "@/controllers/admin.controller";
+import {
+  getAllUsers,
+  getUser,
+  getUserCreditTransactions,
+  getUserUsage,
+  grantUserCredits,
+  unlockUser,
+  updateUserStatus,
+} from "@/controllers/admin.controller";
+import { getAuditEvents } from "@/controllers/audit.controller";
+import {
+  deleteCreditPrice,
+  getCreditPrices,
+  getUsageMargins,
+  updateCreditPrice,
+} from "@/controllers/creditPrice.controller";
+import { getImpersonationLogs, startImpersonation } from "@/controllers/impersonation.controller";
+import {
+  archivePlan,
+  createPlan,
+  getAllPlansForAdmin,
+  getPlanVersions,
+  restorePlan,
+  updatePlan,
+} from "@/controllers/plan.controller";
+import {
+  deleteExchangeRate,
+  getExchangeRates,
+  getPlanPrices,
+  updateExchangeRate,
+  updatePlanPrices,
+} from "@/controllers/pricing.controller";
+import {
+  assignUserRole,
+  createModule,
+  createRole,
+  deleteRole,
+  getAllModules,
+  getAllRoles,
+  getRolePermissions,
+  updateRole,
+  updateRolePermissions,
+} from "@/controllers/rbac.controller";
 import { checkAuthentication } from "@/middlewares/checkAuthentication";
 import { checkAuthorization } from "@/middlewares/checkAuthorization";
 import { Router } from "express";
@@ -12,4 +54,241 @@ router.get(
   getAllUsers
 );
 
+router.get(
+  "/user/:userId",
+  checkAuthentication,
+  checkAuthorization({ module: "User_management", action: "canReadSingle" }),
+  getUser
+);
+
+router.get(
+  "/user/:userId/usage",
+  checkAuthentication,
+  checkAuthorization({ module: "User_management", action: "canReadSingle" }),
+  getUserUsage
+);
+
+router.get(
+  "/user/:userId/credit-transactions",
+  checkAuthentication,
+  checkAuthorization({ module: "User_management", action: "canReadSingle" }),
+  getUserCreditTransactions
+);
+
+router.post(
+  "/user/:userId/credit-grants",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canCreate" }),
+  grantUserCredits
+);
+
+router.put(
+  "/user/:userId/status",
+  checkAuthentication,
+  checkAuthorization({ module: "User_management", action: "canUpdate" }),
+  updateUserStatus
+);
+
+router.post(
+  "/user/:userId/unlock",
+  checkAuthentication,
+  checkAuthorization({ module: "User_management", action: "canUpdate" }),
+  unlockUser
+);
+
+router.put(
+  "/user/:userId/role",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canUpdate" }),
+  assignUserRole
+);
+
+router.post(
+  "/user/:userId/impersonate",
+  checkAuthentication,
+  checkAuthorization({ module: "User_management", action: "canUpdate" }),
+  startImpersonation
+);
+
+router.get(
+  "/impersonations",
+  checkAuthentication,
+  checkAuthorization({ module: "User_management", action: "canReadList" }),
+  getImpersonationLogs
+);
+
+router.get(
+  "/audit-events",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canReadList" }),
+  getAuditEvents
+);
+
+// ---------------- RBAC ----------------
+
+router.get(
+  "/roles",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canReadList" }),
+  getAllRoles
+);
+
+router.post(
+  "/roles",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canCreate" }),
+  createRole
+);
+
+router.put(
+  "/roles/:roleId",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canUpdate" }),
+  updateRole
+);
+
+router.delete(
+  "/roles/:roleId",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canDelete" }),
+  deleteRole
+);
+
+router.get(
+  "/roles/:roleId/permissions",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canReadSingle" }),
+  getRolePermissions
+);
+
+router.put(
+  "/roles/:roleId/permissions",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canUpdate" }),
+  updateRolePermissions
+);
+
+router.get(
+  "/modules",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canReadList" }),
+  getAllModules
+);
+
+router.post(
+  "/modules",
+  checkAuthentication,
+  checkAuthorization({ module: "Admin_panel", action: "canCreate" }),
+  createModule
+);
+
+// ---------------- Plans ----------------
+
+router.get(
+  "/plans",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canReadList" }),
+  getAllPlansForAdmin
+);
+
+router.post(
+  "/plans",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canCreate" }),
+  createPlan
+);
+
+router.put(
+  "/plans/:planId",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canUpdate" }),
+  updatePlan
+);
+
+router.post(
+  "/plans/:planId/archive",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canDelete" }),
+  archivePlan
+);
+
+router.post(
+  "/plans/:planId/restore",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canUpdate" }),
+  restorePlan
+);
+
+router.get(
+  "/plans/:planId/versions",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canReadSingle" }),
+  getPlanVersions
+);
+
+router.get(
+  "/plans/:planId/prices",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canReadSingle" }),
+  getPlanPrices
+);
+
+router.put(
+  "/plans/:planId/prices",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canUpdate" }),
+  updatePlanPrices
+);
+
+router.get(
+  "/exchange-rates",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canReadList" }),
+  getExchangeRates
+);
+
+router.put(
+  "/exchange-rates/:currency",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canUpdate" }),
+  updateExchangeRate
+);
+
+router.delete(
+  "/exchange-rates/:currency",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canDelete" }),
+  deleteExchangeRate
+);
+
+// ---------------- Credit pricing ----------------
+
+router.get(
+  "/credit-prices",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canReadList" }),
+  getCreditPrices
+);
+
+router.put(
+  "/credit-prices/:tool/:action",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canUpdate" }),
+  updateCreditPrice
+);
+
+router.delete(
+  "/credit-prices/:tool/:action",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canDelete" }),
+  deleteCreditPrice
+);
+
+router.get(
+  "/usage/margins",
+  checkAuthentication,
+  checkAuthorization({ module: "Billing", action: "canReadList" }),
+  getUsageMargins
+);
+
 export default router;
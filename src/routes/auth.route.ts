@@ -1,11 +1,70 @@
-import { login, logout, register, renewToken } from "@/controllers/auth.controller";
-import { checkAuthenticationRefresh } from "@/middlewares/checkAuthentication";
+import {
+  emailVerificationConfirm,
+  emailVerificationResend,
+  emailVerificationSend,
+  getAllSessions,
+  login,
+  loginTwoFactor,
+  logout,
+  passwordResetConfirm,
+  passwordResetRequest,
+  register,
+  renewToken,
+  revokeOtherSessions,
+  revokeSession,
+} from "@/controllers/auth.controller";
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  setupTwoFactor,
+} from "@/controllers/twoFactor.controller";
+import { oauthCallback, oauthStart } from "@/controllers/oauth.controller";
+import { stopImpersonation } from "@/controllers/impersonation.controller";
+import { blockWhileImpersonating } from "@/middlewares/blockWhileImpersonating";
+import { checkAuthentication, checkAuthenticationRefresh } from "@/middlewares/checkAuthentication";
 import { Router } from "express";
 const router: Router = Router();
 
 router.post("/login", login);
+router.post("/login/2fa", loginTwoFactor);
 router.post("/register", register);
 router.get("/logout", checkAuthenticationRefresh, logout);
 router.get("/renew-token", checkAuthenticationRefresh, renewToken);
+// POST variants accept the refresh token in the body for clients without cookies
+router.post("/logout", checkAuthenticationRefresh, logout);
+router.post("/renew-token", checkAuthenticationRefresh, renewToken);
+router.post("/password-reset/request", passwordResetRequest);
+router.post("/password-reset/confirm", passwordResetConfirm);
+router.post(
+  "/email-verification/send",
+  checkAuthentication,
+  blockWhileImpersonating,
+  emailVerificationSend
+);
+router.post("/email-verification/resend", emailVerificationResend);
+router.post("/email-verification/confirm", emailVerificationConfirm);
+router.get("/sessions", checkAuthentication, getAllSessions);
+router.post(
+  "/sessions/revoke-others",
+  checkAuthentication,
+  blockWhileImpersonating,
+  revokeOtherSessions
+);
+router.delete("/sessions/:sessionId", checkAuthentication, blockWhileImpersonating, revokeSession);
+router.get("/2fa", checkAuthentication, getTwoFactorStatus);
+router.post("/2fa/setup", checkAuthentication, blockWhileImpersonating, setupTwoFactor);
+router.post("/2fa/enable", checkAuthentication, blockWhileImpersonating, enableTwoFactor);
+router.post("/2fa/disable", checkAuthentication, blockWhileImpersonating, disableTwoFactor);
+router.post(
+  "/2fa/recovery-codes",
+  checkAuthentication,
+  blockWhileImpersonating,
+  regenerateRecoveryCodes
+);
+router.post("/impersonation/stop", checkAuthentication, stopImpersonation);
+router.get("/oauth/:provider", oauthStart);
+router.get("/oauth/:provider/callback", oauthCallback);
 
 export default router;
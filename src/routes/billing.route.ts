@@ -0,0 +1,27 @@
+import {
+  completeFakeCheckout,
+  createCheckout,
+  getCheckout,
+  getCreditPacks,
+  handlePaymentWebhook,
+} from "@/controllers/billing.controller";
+import { checkAuthentication } from "@/middlewares/checkAuthentication";
+import { blockWhileImpersonating } from "@/middlewares/blockWhileImpersonating";
+import { fakeCheckoutEnabled } from "@/lib/payment";
+import { Router } from "express";
+
+const router: Router = Router();
+
+router.get("/credit-packs", getCreditPacks);
+router.post("/checkout", checkAuthentication, blockWhileImpersonating, createCheckout);
+router.get("/checkout/:checkoutId", checkAuthentication, getCheckout);
+
+// Called by the payment provider, authenticated by its signature
+router.post("/webhook", handlePaymentWebhook);
+
+// Only mounted with PAYMENT_FAKE_CHECKOUT_ENABLED=true on the fake provider
+if (fakeCheckoutEnabled) {
+  router.post("/fake/complete", checkAuthentication, blockWhileImpersonating, completeFakeCheckout);
+}
+
+export default router;
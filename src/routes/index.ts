@@ -4,6 +4,9 @@ import userRouter from "./user.route";
 import planRouter from "./plan.route";
 import adminRouter from "./admin.route";
 import seoRouter from "./seo.route";
+import workspaceRouter from "./workspace.route";
+import billingRouter from "./billing.route";
+import projectRouter from "./project.route";
 
 const router: Router = Router();
 
@@ -12,5 +15,8 @@ router.use("/user", userRouter);
 router.use("/plan", planRouter);
 router.use("/admin", adminRouter);
 router.use("/seo", seoRouter);
+router.use("/workspace", workspaceRouter);
+router.use("/billing", billingRouter);
+router.use("/project", projectRouter);
 
 export default router;
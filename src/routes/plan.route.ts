@@ -1,5 +1,5 @@
 import { getAllPlans, getSinglePlan } from "@/controllers/plan.controller";
-import { checkAuthentication } from "@/middlewares/checkAuthentication";
+import { checkAuthentication, optionalAuthentication } from "@/middlewares/checkAuthentication";
 import { checkAuthorization } from "@/middlewares/checkAuthorization";
 import { Router } from "express";
 
@@ -9,6 +9,7 @@ router.get(
   "/get-all-plans",
   // checkAuthentication,
   // checkAuthorization({ module: "Billing", action: "canReadList" }),
+  optionalAuthentication,
   getAllPlans
 );
 
@@ -0,0 +1,30 @@
+import {
+  createProject,
+  deleteProject,
+  getAllProjects,
+  getProject,
+  updateProject,
+} from "@/controllers/project.controller";
+import { checkAuthentication } from "@/middlewares/checkAuthentication";
+import { resolveWorkspaceContext } from "@/middlewares/checkWorkspace";
+import { checkPlanLimit } from "@/middlewares/checkEntitlement";
+import { Router } from "express";
+
+const router: Router = Router();
+
+// `X-Workspace-Id` picks the workspace to list and create in; single projects are
+// checked against the user's workspace memberships
+router.get("/", checkAuthentication, resolveWorkspaceContext, getAllProjects);
+router.post(
+  "/",
+  checkAuthentication,
+  resolveWorkspaceContext,
+  checkPlanLimit("maxProjects"),
+  createProject
+);
+
+router.get("/:projectId", checkAuthentication, getProject);
+router.put("/:projectId", checkAuthentication, updateProject);
+router.delete("/:projectId", checkAuthentication, deleteProject);
+
+export default router;
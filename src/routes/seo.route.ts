@@ -10,28 +10,96 @@ import {
   refineKeywords,
 } from "@/controllers/seo.controller";
 
-import { checkAuthentication } from "@/middlewares/checkAuthentication";
+import { checkAuthenticationOrApiKey } from "@/middlewares/checkAuthentication";
+import { checkApiKeyScope } from "@/middlewares/checkApiKeyScope";
+import { checkEmailVerified } from "@/middlewares/checkEmailVerified";
+import { resolveWorkspaceContext } from "@/middlewares/checkWorkspace";
+import { meterCredits } from "@/middlewares/meterCredits";
+import {
+  checkApiKeyPlanAccess,
+  checkPlanLimit,
+  checkPlanModule,
+} from "@/middlewares/checkEntitlement";
 
 const router: Router = Router();
 
-// router.use(checkAuthentication);
+router.use(checkAuthenticationOrApiKey);
+router.use(checkEmailVerified);
+router.use(resolveWorkspaceContext);
+router.use(checkApiKeyPlanAccess);
 
 // SERP Competitors Analysis
-router.post("/serp-competitors", getSerpCompetitors);
+router.post(
+  "/serp-competitors",
+  checkApiKeyScope("Serp_analyzer"),
+  checkPlanModule("Serp_analyzer"),
+  checkPlanLimit("monthlySeoLookups"),
+  meterCredits("serp_analyzer", "serp_competitors"),
+  getSerpCompetitors
+);
 
 // Backlinks Checker
-router.post("/backlinks", getBacklinks);
+router.post(
+  "/backlinks",
+  checkApiKeyScope("Domain_Metrics"),
+  checkPlanModule("Domain_Metrics"),
+  checkPlanLimit("monthlySeoLookups"),
+  meterCredits("domain_metrics", "backlinks"),
+  getBacklinks
+);
 
 // Domain Metrics
-router.post("/domain-metrics", getDomainMetrics);
+router.post(
+  "/domain-metrics",
+  checkApiKeyScope("Domain_Metrics"),
+  checkPlanModule("Domain_Metrics"),
+  checkPlanLimit("monthlySeoLookups"),
+  meterCredits("domain_metrics", "domain_metrics"),
+  getDomainMetrics
+);
 
 // Domain Metrics Advanced (Top Content & Competitors)
-router.post("/domain-metrics-advanced", getDomainMetricsAdvanced);
+router.post(
+  "/domain-metrics-advanced",
+  checkApiKeyScope("Domain_Metrics"),
+  checkPlanModule("Domain_Metrics"),
+  checkPlanLimit("monthlySeoLookups"),
+  meterCredits("domain_metrics", "domain_metrics_advanced"),
+  getDomainMetricsAdvanced
+);
 
 // Opportunity Finder
-router.post("/opportunity-finder", findOpportunities);
-router.post("/opportunity-finder-sv", findOpportunitiesSV);
-router.post("/opportunity-finder-lab", findOpportunitiesLab);
-router.post("/refine", refineKeywords);
+router.post(
+  "/opportunity-finder",
+  checkApiKeyScope("Opportunity_finder"),
+  checkPlanModule("Opportunity_finder"),
+  checkPlanLimit("monthlySeoLookups"),
+  meterCredits("opportunity_finder", "opportunity_finder"),
+  findOpportunities
+);
+router.post(
+  "/opportunity-finder-sv",
+  checkApiKeyScope("Opportunity_finder"),
+  checkPlanModule("Opportunity_finder"),
+  checkPlanLimit("monthlySeoLookups"),
+  meterCredits("opportunity_finder", "opportunity_finder_sv"),
+  findOpportunitiesSV
+);
+router.post(
+  "/opportunity-finder-lab",
+  checkApiKeyScope("Opportunity_finder"),
+  checkPlanModule("Opportunity_finder"),
+  checkPlanLimit("monthlySeoLookups"),
+  meterCredits("opportunity_finder", "opportunity_finder_lab"),
+  findOpportunitiesLab
+);
+router.post(
+  "/refine",
+  checkApiKeyScope("Keyword_research"),
+  checkPlanModule("Keyword_research"),
+  checkPlanLimit("monthlySeoLookups"),
+  meterCredits("keyword_research", "refine"),
+  refineKeywords
+);
 
 export default router;
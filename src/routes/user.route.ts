@@ -1,10 +1,70 @@
-import { getSession } from "@/controllers/user.controller";
+import {
+  changePassword,
+  confirmEmailChange,
+  deleteAccount,
+  exportUserData,
+  getCredits,
+  getSession,
+  requestEmailChange,
+  updatePreferences,
+  updateProfile,
+} from "@/controllers/user.controller";
+import { createApiKey, getAllApiKeys, revokeApiKey } from "@/controllers/apiKey.controller";
+import {
+  cancelSubscription,
+  changeSubscriptionPlan,
+  createSubscription,
+  getPlanEntitlements,
+  getSubscription,
+  resumeSubscription,
+} from "@/controllers/subscription.controller";
 import { checkAuthentication } from "@/middlewares/checkAuthentication";
 import { checkAuthorization } from "@/middlewares/checkAuthorization";
+import { blockWhileImpersonating } from "@/middlewares/blockWhileImpersonating";
+import { checkPlanApiAccess } from "@/middlewares/checkEntitlement";
+import { resolveWorkspaceContext } from "@/middlewares/checkWorkspace";
 import { Router } from "express";
 
 const router: Router = Router();
 
 router.get("/get-user-session", checkAuthentication, getSession);
+router.put("/profile", checkAuthentication, updateProfile);
+router.put("/preferences", checkAuthentication, updatePreferences);
+router.post("/change-password", checkAuthentication, blockWhileImpersonating, changePassword);
+router.post("/change-email", checkAuthentication, blockWhileImpersonating, requestEmailChange);
+router.post("/change-email/confirm", confirmEmailChange);
+router.get("/export", checkAuthentication, blockWhileImpersonating, exportUserData);
+router.post("/delete-account", checkAuthentication, blockWhileImpersonating, deleteAccount);
+
+router.get("/api-keys", checkAuthentication, getAllApiKeys);
+router.post(
+  "/api-keys",
+  checkAuthentication,
+  blockWhileImpersonating,
+  checkPlanApiAccess,
+  createApiKey
+);
+router.delete("/api-keys/:apiKeyId", checkAuthentication, blockWhileImpersonating, revokeApiKey);
+
+router.get("/subscription", checkAuthentication, getSubscription);
+router.post("/subscription", checkAuthentication, blockWhileImpersonating, createSubscription);
+router.put("/subscription", checkAuthentication, blockWhileImpersonating, changeSubscriptionPlan);
+router.post(
+  "/subscription/cancel",
+  checkAuthentication,
+  blockWhileImpersonating,
+  cancelSubscription
+);
+router.post(
+  "/subscription/resume",
+  checkAuthentication,
+  blockWhileImpersonating,
+  resumeSubscription
+);
+
+router.get("/credits", checkAuthentication, getCredits);
+
+// Plan limits and their current usage, for a workspace with `X-Workspace-Id`
+router.get("/entitlements", checkAuthentication, resolveWorkspaceContext, getPlanEntitlements);
 
 export default router;
@@ -0,0 +1,81 @@
+import {
+  acceptInvitation,
+  createInvitation,
+  createWorkspace,
+  declineInvitation,
+  deleteWorkspace,
+  getAllInvitations,
+  getAllWorkspaces,
+  getWorkspace,
+  removeMember,
+  revokeInvitation,
+  transferCreditsToWorkspace,
+  updateMemberRole,
+  updateWorkspace,
+} from "@/controllers/workspace.controller";
+import { checkAuthentication } from "@/middlewares/checkAuthentication";
+import { checkWorkspaceRole } from "@/middlewares/checkWorkspace";
+import { checkPlanLimit } from "@/middlewares/checkEntitlement";
+import { blockWhileImpersonating } from "@/middlewares/blockWhileImpersonating";
+import { Router } from "express";
+
+const router: Router = Router();
+
+router.get("/", checkAuthentication, getAllWorkspaces);
+router.post("/", checkAuthentication, createWorkspace);
+
+router.post("/invitations/accept", checkAuthentication, acceptInvitation);
+router.post("/invitations/decline", declineInvitation);
+
+router.get("/:workspaceId", checkAuthentication, checkWorkspaceRole("MEMBER"), getWorkspace);
+router.put("/:workspaceId", checkAuthentication, checkWorkspaceRole("ADMIN"), updateWorkspace);
+router.delete(
+  "/:workspaceId",
+  checkAuthentication,
+  blockWhileImpersonating,
+  checkWorkspaceRole("OWNER"),
+  deleteWorkspace
+);
+
+router.get(
+  "/:workspaceId/invitations",
+  checkAuthentication,
+  checkWorkspaceRole("ADMIN"),
+  getAllInvitations
+);
+router.post(
+  "/:workspaceId/invitations",
+  checkAuthentication,
+  checkWorkspaceRole("ADMIN"),
+  checkPlanLimit("maxWorkspaceMembers"),
+  createInvitation
+);
+router.delete(
+  "/:workspaceId/invitations/:invitationId",
+  checkAuthentication,
+  checkWorkspaceRole("ADMIN"),
+  revokeInvitation
+);
+
+router.put(
+  "/:workspaceId/members/:userId",
+  checkAuthentication,
+  checkWorkspaceRole("OWNER"),
+  updateMemberRole
+);
+router.delete(
+  "/:workspaceId/members/:userId",
+  checkAuthentication,
+  checkWorkspaceRole("MEMBER"),
+  removeMember
+);
+
+router.post(
+  "/:workspaceId/credits",
+  checkAuthentication,
+  blockWhileImpersonating,
+  checkWorkspaceRole("MEMBER"),
+  transferCreditsToWorkspace
+);
+
+export default router;
@@ -1,6 +1,7 @@
 import "dotenv/config";
 import { app } from "./app";
 import { logger } from "./utils/logger";
+import { startJobs } from "./jobs";
 import { existsSync, mkdirSync } from "fs";
 import { join } from "path";
 
@@ -16,4 +17,5 @@ app.listen(PORT, () => {
   logger.info(`🚀 Server is running on port: ${PORT}`);
   logger.info(`📝 Environment: ${process.env.NODE_ENV || "development"}`);
   logger.info(`🌐 API available at: http://localhost:${PORT}`);
+  startJobs();
 });
@@ -0,0 +1,313 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { parseTimeString } from "@/utils/helperFunctions";
+import { logger } from "@/utils/logger";
+import { accountThrottleKey } from "@/services/loginThrottle.service";
+import { bumpUserPermissionsVersion } from "@/services/permission.service";
+import { LIVE_SUBSCRIPTION_STATUSES } from "@/services/subscription.service";
+import { getOwnedWorkspaces } from "@/services/workspace.service";
+import { paymentService } from "@/lib/payment";
+import { Prisma } from "prisma/generated/prisma/client";
+
+export const getDeletionGraceMs = () =>
+  parseTimeString(process.env.ACCOUNT_DELETION_GRACE_PERIOD || "30d");
+
+/**
+ * Move a user to DELETED, log them out everywhere and schedule the anonymisation. An
+ * anonymisation already scheduled keeps its date.
+ */
+export async function scheduleAccountDeletion(
+  userId: string,
+  reason?: string | null,
+  scheduledAt?: Date | null
+) {
+  const now = new Date();
+  const deletionScheduledAt = scheduledAt || new Date(now.getTime() + getDeletionGraceMs());
+
+  await prismaClient?.$transaction([
+    prismaClient?.user?.update({
+      where: {
+        id: userId,
+      },
+      data: {
+        status: "DELETED",
+        statusReason: reason || null,
+        statusChangedAt: now,
+        deletionScheduledAt,
+      },
+    }),
+    prismaClient?.session?.deleteMany({
+      where: {
+        userId,
+      },
+    }),
+    prismaClient?.apiKey?.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: now,
+      },
+    }),
+    // No renewals for a deleted account, the paid period is left to run out
+    prismaClient?.subscription?.updateMany({
+      where: {
+        userId,
+        status: { in: LIVE_SUBSCRIPTION_STATUSES },
+        cancelAtPeriodEnd: false,
+      },
+      data: {
+        cancelAtPeriodEnd: true,
+        canceledAt: now,
+      },
+    }),
+  ]);
+  // Drop the cached ACTIVE access so tokens still in flight stop working right away
+  await bumpUserPermissionsVersion(userId);
+
+  const paidSubscriptions = await prismaClient?.subscription?.findMany({
+    where: {
+      userId,
+      status: { in: LIVE_SUBSCRIPTION_STATUSES },
+      providerSubscriptionId: { not: null },
+    },
+    select: {
+      providerSubscriptionId: true,
+    },
+  });
+  for (const subscription of paidSubscriptions || []) {
+    try {
+      await paymentService.setCancelAtPeriodEnd(subscription.providerSubscriptionId!, true);
+    } catch (error) {
+      logger.error("Provider subscription cancel failed", {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return deletionScheduledAt;
+}
+
+// Audit events that record an email address, under one of these meta / changes keys
+const EMAIL_AUDIT_ACTIONS = [
+  "auth.login_failed",
+  "auth.email_verified",
+  "user.email_change_requested",
+  "user.email_changed",
+  "workspace.member_invited",
+];
+const EMAIL_AUDIT_KEYS = ["email", "pendingEmail"];
+
+const asJsonObject = (value: Prisma.JsonValue | null) =>
+  value && typeof value === "object" && !Array.isArray(value) ? value : null;
+
+const withoutEmails = (value: Prisma.JsonValue | null) => {
+  const object = asJsonObject(value);
+  return object
+    ? (Object.fromEntries(
+        Object.entries(object).filter(([key]) => !EMAIL_AUDIT_KEYS.includes(key))
+      ) as Prisma.InputJsonValue)
+    : undefined;
+};
+
+/**
+ * Updates removing the user's addresses from the audit log: the email events of the user,
+ * and those of others (invitations, failed logins) naming any address the user ever had.
+ * The events themselves stay.
+ */
+async function scrubAuditEmails(userId: string, email: string | null) {
+  const ownEvents =
+    (await prismaClient?.auditEvent?.findMany({
+      where: {
+        action: { in: EMAIL_AUDIT_ACTIONS },
+        OR: [{ actorId: userId }, { targetType: "user", targetId: userId }],
+      },
+      select: {
+        id: true,
+        meta: true,
+        changes: true,
+      },
+    })) || [];
+
+  // Past addresses are only known from the email change events
+  const addresses = new Set(email ? [email] : []);
+  for (const event of ownEvents) {
+    const meta = asJsonObject(event.meta);
+    const emailChange = asJsonObject(asJsonObject(event.changes)?.email ?? null);
+    for (const value of [meta?.email, meta?.pendingEmail, emailChange?.from, emailChange?.to]) {
+      if (typeof value === "string" && value) {
+        addresses.add(value);
+      }
+    }
+  }
+
+  const otherEvents = addresses.size
+    ? (await prismaClient?.auditEvent?.findMany({
+        where: {
+          action: { in: EMAIL_AUDIT_ACTIONS },
+          id: { notIn: ownEvents.map((event) => event.id) },
+          OR: [...addresses].map((address) => ({ meta: { path: ["email"], equals: address } })),
+        },
+        select: {
+          id: true,
+          meta: true,
+          changes: true,
+        },
+      })) || []
+    : [];
+
+  return [...ownEvents, ...otherEvents].map((event) =>
+    prismaClient?.auditEvent?.update({
+      where: {
+        id: event.id,
+      },
+      data: {
+        meta: withoutEmails(event.meta),
+        changes: withoutEmails(event.changes),
+      },
+    })
+  );
+}
+
+/**
+ * Updates giving each workspace the user owns to its longest-standing admin, or member.
+ * A workspace nobody else belongs to is deleted with its projects.
+ */
+async function handOverWorkspaces(userId: string) {
+  const handovers: Prisma.PrismaPromise<unknown>[] = [];
+  for (const workspace of await getOwnedWorkspaces(userId)) {
+    // Roles sort OWNER, ADMIN, MEMBER
+    const successor = await prismaClient?.workspaceMember?.findFirst({
+      where: {
+        workspaceId: workspace.id,
+        userId: { not: userId },
+      },
+      orderBy: [{ role: "asc" }, { createdAt: "asc" }],
+    });
+    handovers.push(
+      successor
+        ? prismaClient?.workspaceMember?.update({
+            where: {
+              id: successor.id,
+            },
+            data: {
+              role: "OWNER",
+            },
+          })
+        : prismaClient?.workspace?.delete({
+            where: {
+              id: workspace.id,
+            },
+          })
+    );
+  }
+  return handovers;
+}
+
+/**
+ * Erase the personal data of a deleted user. The user row, credit transactions and usage
+ * logs are kept (without PII) because they are needed for accounting, audit events for
+ * security reviews.
+ */
+export async function anonymiseUser(userId: string) {
+  const user = await prismaClient?.user?.findFirst({
+    where: {
+      id: userId,
+      status: "DELETED",
+      anonymisedAt: null,
+    },
+    select: {
+      id: true,
+      email: true,
+    },
+  });
+  if (!user) {
+    return false;
+  }
+
+  // Users hand over their workspaces before deleting themselves, accounts deleted by an
+  // admin may still own some
+  const handovers = await handOverWorkspaces(userId);
+  const auditScrubs = await scrubAuditEmails(userId, user.email);
+  await prismaClient?.$transaction([
+    ...handovers,
+    prismaClient?.account?.deleteMany({ where: { userId } }),
+    prismaClient?.session?.deleteMany({ where: { userId } }),
+    prismaClient?.apiKey?.deleteMany({ where: { userId } }),
+    prismaClient?.twoFactor?.deleteMany({ where: { userId } }),
+    prismaClient?.recoveryCode?.deleteMany({ where: { userId } }),
+    prismaClient?.verificationToken?.deleteMany({ where: { identifier: userId } }),
+    // Workspace projects belong to the team and are kept
+    prismaClient?.project?.deleteMany({ where: { userId, workspaceId: null } }),
+    prismaClient?.workspaceMember?.deleteMany({ where: { userId } }),
+    ...(user.email
+      ? [
+          prismaClient?.loginAttempt?.deleteMany({
+            where: { key: accountThrottleKey(user.email) },
+          }),
+          prismaClient?.workspaceInvitation?.deleteMany({ where: { email: user.email } }),
+        ]
+      : []),
+    ...auditScrubs,
+    // Tool inputs (keywords, domains) may identify the user, the credit amounts stay
+    prismaClient?.usageLog?.updateMany({
+      where: {
+        userId,
+      },
+      data: {
+        meta: Prisma.DbNull,
+      },
+    }),
+    prismaClient?.user?.update({
+      where: {
+        id: userId,
+      },
+      data: {
+        email: null,
+        pendingEmail: null,
+        emailVerified: false,
+        name: null,
+        avatarUrl: null,
+        statusReason: null,
+        anonymisedAt: new Date(),
+      },
+    }),
+  ]);
+  await bumpUserPermissionsVersion(userId);
+
+  return true;
+}
+
+/**
+ * Anonymise every deleted account whose grace period is over
+ */
+export async function anonymiseDueAccounts() {
+  const dueUsers = await prismaClient?.user?.findMany({
+    where: {
+      status: "DELETED",
+      anonymisedAt: null,
+      deletionScheduledAt: { lte: new Date() },
+    },
+    select: {
+      id: true,
+    },
+    take: 100,
+  });
+
+  let anonymised = 0;
+  for (const user of dueUsers || []) {
+    try {
+      if (await anonymiseUser(user.id)) {
+        anonymised++;
+      }
+    } catch (error) {
+      logger.error("Account anonymisation failed", {
+        userId: user.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return anonymised;
+}
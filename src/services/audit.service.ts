@@ -0,0 +1,73 @@
+import { type Request } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { extractIpAddress, extractUserAgent } from "@/utils/helperFunctions";
+import { logger } from "@/utils/logger";
+import type { RequestWithId } from "@/middlewares/requestLogger";
+import type { Prisma } from "prisma/generated/prisma/client";
+
+type AuditSnapshot = Record<string, unknown>;
+
+export type AuditEventInput = {
+  action: string;
+  // Defaults to the authenticated user of the request
+  actorId?: string | null;
+  targetType?: string;
+  targetId?: string | null;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+  meta?: AuditSnapshot;
+};
+
+const toComparable = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : JSON.stringify(value ?? null);
+
+// Keep only the fields whose value changed between the two snapshots
+export function diffSnapshots(before?: AuditSnapshot | null, after?: AuditSnapshot | null) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (toComparable(from) !== toComparable(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Record an audit event for the request. Never throws - a failing audit write is logged
+ * and must not break the action being audited.
+ */
+export async function recordAuditEvent(req: Request, event: AuditEventInput) {
+  try {
+    const changes =
+      event.before || event.after ? diffSnapshots(event.before, event.after) : undefined;
+
+    await prismaClient?.auditEvent?.create({
+      data: {
+        actorId: event.actorId === undefined ? req?.userId || null : event.actorId,
+        impersonatorId: req?.impersonatorId || null,
+        action: event.action,
+        targetType: event.targetType || null,
+        targetId: event.targetId || null,
+        changes: changes
+          ? (JSON.parse(JSON.stringify(changes)) as Prisma.InputJsonValue)
+          : undefined,
+        meta: event.meta
+          ? (JSON.parse(JSON.stringify(event.meta)) as Prisma.InputJsonValue)
+          : undefined,
+        ipAddress: extractIpAddress(req),
+        userAgent: extractUserAgent(req),
+        requestId: (req as RequestWithId)?.id || null,
+      },
+    });
+  } catch (error) {
+    logger.error("Audit Error", {
+      action: event.action,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
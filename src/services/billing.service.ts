@@ -0,0 +1,300 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { logger } from "@/utils/logger";
+import type { PaymentEvent } from "@/services/payment.service";
+import {
+  addBillingPeriod,
+  LIVE_SUBSCRIPTION_STATUSES,
+  renewSubscription,
+} from "@/services/subscription.service";
+import { Prisma } from "prisma/generated/prisma/client";
+import type { PlanCurrency } from "prisma/generated/prisma/enums";
+
+export const CREDIT_PACKS: Array<{
+  id: string;
+  credits: number;
+  price: string;
+  currency: PlanCurrency;
+}> = [
+  { id: "credits_1000", credits: 1000, price: "10.00", currency: "USD" },
+  { id: "credits_5000", credits: 5000, price: "45.00", currency: "USD" },
+  { id: "credits_20000", credits: 20000, price: "160.00", currency: "USD" },
+];
+
+// An invoice paid this close to the period end pays for the next period
+const RENEWAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Store a webhook event. Redeliveries of the same event id return the existing row.
+ */
+export async function recordPaymentEvent(provider: string, event: PaymentEvent) {
+  const existing = await prismaClient?.paymentEvent?.findFirst({
+    where: {
+      provider,
+      eventId: event.id,
+    },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await prismaClient?.paymentEvent?.create({
+      data: {
+        provider,
+        eventId: event.id,
+        type: event.type,
+        payload: JSON.parse(JSON.stringify(event.raw ?? {})) as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    // Concurrent delivery of the same event
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return prismaClient?.paymentEvent?.findFirst({
+        where: {
+          provider,
+          eventId: event.id,
+        },
+      });
+    }
+    throw error;
+  }
+}
+
+async function completeCheckout(sessionId: string, providerSubscriptionId?: string) {
+  const checkout = await prismaClient?.checkout?.findFirst({
+    where: {
+      providerSessionId: sessionId,
+    },
+  });
+  if (!checkout) {
+    throw new Error("Unknown checkout session");
+  }
+
+  await prismaClient?.$transaction(async (tx) => {
+    // Only the first completion has an effect
+    const completed = await tx.checkout.updateMany({
+      where: {
+        id: checkout.id,
+        status: "PENDING",
+      },
+      data: {
+        status: "COMPLETED",
+        completedAt: new Date(),
+      },
+    });
+    if (!completed.count) {
+      return;
+    }
+
+    if (checkout.kind === "CREDITS") {
+      await tx.user.update({
+        where: {
+          id: checkout.userId,
+        },
+        data: {
+          credits: { increment: checkout.credits || 0 },
+        },
+      });
+      await tx.creditTransaction.create({
+        data: {
+          userId: checkout.userId,
+          amount: checkout.credits || 0,
+          reason: "credit_purchase",
+        },
+      });
+      return;
+    }
+
+    const planVersion = checkout.planVersionId
+      ? await tx.planVersion.findFirst({
+          where: {
+            id: checkout.planVersionId,
+          },
+        })
+      : null;
+    if (!planVersion) {
+      throw new Error("Checkout plan version not found");
+    }
+
+    const now = new Date();
+    const subscriptionData = {
+      planId: planVersion.planId,
+      planVersionId: planVersion.id,
+      status: "ACTIVE" as const,
+      providerSubscriptionId: providerSubscriptionId || null,
+      price: checkout.amount,
+      currency: checkout.currency,
+      currentPeriodStart: now,
+      currentPeriodEnd: addBillingPeriod(now),
+      pendingPlanVersionId: null,
+      cancelAtPeriodEnd: false,
+      canceledAt: null,
+    };
+
+    // A trial (or lapsed payment) turns into the paid subscription
+    const current = await tx.subscription.findFirst({
+      where: {
+        userId: checkout.userId,
+        status: { in: LIVE_SUBSCRIPTION_STATUSES },
+      },
+    });
+    if (current) {
+      await tx.subscription.update({
+        where: {
+          id: current.id,
+        },
+        data: subscriptionData,
+      });
+    } else {
+      await tx.subscription.create({
+        data: {
+          userId: checkout.userId,
+          ...subscriptionData,
+        },
+      });
+    }
+  });
+}
+
+async function renewPaidSubscription(providerSubscriptionId: string) {
+  const subscription = await prismaClient?.subscription?.findFirst({
+    where: {
+      providerSubscriptionId,
+      status: { in: LIVE_SUBSCRIPTION_STATUSES },
+    },
+    select: {
+      id: true,
+      status: true,
+      currentPeriodEnd: true,
+      cancelAtPeriodEnd: true,
+      currency: true,
+      planVersion: {
+        select: {
+          currency: true,
+        },
+      },
+      pendingPlanVersion: {
+        select: {
+          id: true,
+          planId: true,
+          price: true,
+          currency: true,
+        },
+      },
+    },
+  });
+  // The first invoice is paid with the checkout, nothing to renew yet
+  if (!subscription || subscription.currentPeriodEnd.getTime() > Date.now() + RENEWAL_WINDOW_MS) {
+    return;
+  }
+
+  await renewSubscription(subscription);
+}
+
+/**
+ * Apply a verified webhook event. Every branch is guarded so replaying an event is harmless.
+ */
+export async function applyPaymentEvent(event: PaymentEvent) {
+  const { sessionId, providerSubscriptionId } = event.data;
+
+  switch (event.type) {
+    case "checkout.completed":
+      if (!sessionId) {
+        throw new Error("checkout.completed without sessionId");
+      }
+      await completeCheckout(sessionId, providerSubscriptionId);
+      break;
+
+    case "checkout.expired":
+      if (sessionId) {
+        await prismaClient?.checkout?.updateMany({
+          where: {
+            providerSessionId: sessionId,
+            status: "PENDING",
+          },
+          data: {
+            status: "EXPIRED",
+          },
+        });
+      }
+      break;
+
+    case "invoice.paid":
+      if (providerSubscriptionId) {
+        await renewPaidSubscription(providerSubscriptionId);
+      }
+      break;
+
+    case "invoice.payment_failed":
+      if (providerSubscriptionId) {
+        await prismaClient?.subscription?.updateMany({
+          where: {
+            providerSubscriptionId,
+            status: { in: ["TRIALING", "ACTIVE"] },
+          },
+          data: {
+            status: "PAST_DUE",
+          },
+        });
+      }
+      break;
+
+    case "subscription.canceled":
+      if (providerSubscriptionId) {
+        await prismaClient?.subscription?.updateMany({
+          where: {
+            providerSubscriptionId,
+            status: { in: LIVE_SUBSCRIPTION_STATUSES },
+          },
+          data: {
+            status: "CANCELED",
+            endedAt: new Date(),
+            pendingPlanVersionId: null,
+          },
+        });
+      }
+      break;
+
+    default:
+      logger.warn("Unhandled payment event", { eventId: event.id, type: event.type });
+  }
+}
+
+/**
+ * Record and apply a webhook event once. Returns false for an event that was already
+ * processed; a failed event keeps its error and is applied again on the next delivery.
+ */
+export async function processPaymentEvent(provider: string, event: PaymentEvent) {
+  const stored = await recordPaymentEvent(provider, event);
+  if (!stored) {
+    throw new Error("Failed to store payment event");
+  }
+  if (stored.processedAt) {
+    return false;
+  }
+
+  try {
+    await applyPaymentEvent(event);
+  } catch (error) {
+    await prismaClient?.paymentEvent?.update({
+      where: {
+        id: stored.id,
+      },
+      data: {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    throw error;
+  }
+
+  await prismaClient?.paymentEvent?.update({
+    where: {
+      id: stored.id,
+    },
+    data: {
+      processedAt: new Date(),
+      error: null,
+    },
+  });
+  return true;
+}
@@ -0,0 +1,331 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { consumeCreditGrants } from "@/services/creditGrant.service";
+import { parseTimeString } from "@/utils/helperFunctions";
+import { logger } from "@/utils/logger";
+import { Prisma } from "prisma/generated/prisma/client";
+import type { CreditPricingMode } from "prisma/generated/prisma/enums";
+
+// Balance a request draws from: the workspace pool when set, otherwise the user's own credits
+export type CreditPool = {
+  userId: string;
+  workspaceId?: string | null;
+};
+
+// What a metered handler reports about the call it made
+export type UsageReport = {
+  rows?: number;
+  // USD, summed over the provider responses that report a cost
+  providerCost?: number;
+  meta?: Record<string, unknown>;
+};
+
+export type UsageEntry = {
+  tool: string;
+  action: string;
+  credits: number;
+  providerCost?: number;
+  meta?: Record<string, unknown>;
+};
+
+export type CreditPriceRule = {
+  mode: CreditPricingMode;
+  credits: number;
+  creditsPerRow: Prisma.Decimal | null;
+  markup: Prisma.Decimal | null;
+  maxCredits: number | null;
+};
+
+// Built-in fixed price per call, keyed by `tool.action`. Also the list of metered actions.
+export const DEFAULT_CREDIT_PRICES: Record<string, number> = {
+  "serp_analyzer.serp_competitors": 10,
+  "domain_metrics.backlinks": 5,
+  "domain_metrics.domain_metrics": 5,
+  "domain_metrics.domain_metrics_advanced": 20,
+  "opportunity_finder.opportunity_finder": 25,
+  "opportunity_finder.opportunity_finder_sv": 15,
+  "opportunity_finder.opportunity_finder_lab": 15,
+  "keyword_research.refine": 5,
+};
+
+export const isMeteredAction = (tool: string, action: string) =>
+  `${tool}.${action}` in DEFAULT_CREDIT_PRICES;
+
+// Credit packs sell 1000 credits for 10 USD
+export const getCreditsPerUsd = () => Number(process.env.CREDITS_PER_USD) || 100;
+
+// OpenAI only reports tokens, priced here per 1000 tokens (USD)
+export const estimateOpenAiCost = (totalTokens: number) =>
+  (totalTokens / 1000) * (Number(process.env.OPENAI_COST_PER_1K_TOKENS) || 0.0006);
+
+export async function getCreditPrice(tool: string, action: string): Promise<CreditPriceRule> {
+  const price = await prismaClient?.creditPrice?.findFirst({
+    where: {
+      tool,
+      action,
+    },
+  });
+  return (
+    price || {
+      mode: "FIXED",
+      credits: DEFAULT_CREDIT_PRICES[`${tool}.${action}`] ?? 0,
+      creditsPerRow: null,
+      markup: null,
+      maxCredits: null,
+    }
+  );
+}
+
+// Held before the call: the price when it is fixed, otherwise the cap (or the minimum without one)
+export const getReservedCredits = (price: CreditPriceRule) =>
+  price.mode === "FIXED" ? price.credits : Math.max(price.credits, price.maxCredits ?? 0);
+
+/**
+ * Final charge of a call. Variable prices never go below `credits` nor above `maxCredits`;
+ * a provider-cost price without a reported cost charges the minimum.
+ */
+export function calculateCredits(price: CreditPriceRule, usage: UsageReport = {}) {
+  let variable = new Prisma.Decimal(0);
+  if (price.mode === "PER_ROW" && price.creditsPerRow) {
+    variable = price.creditsPerRow.times(usage.rows || 0);
+  }
+  if (price.mode === "PROVIDER_COST" && price.markup && usage.providerCost) {
+    variable = price.markup.times(usage.providerCost).times(getCreditsPerUsd());
+  }
+
+  const credits = Math.max(price.credits, variable.ceil().toNumber());
+  return price.mode !== "FIXED" && price.maxCredits !== null
+    ? Math.min(credits, Math.max(price.maxCredits, price.credits))
+    : credits;
+}
+
+export async function getCreditBalance(pool: CreditPool) {
+  const owner = pool.workspaceId
+    ? await prismaClient?.workspace?.findFirst({
+        where: {
+          id: pool.workspaceId,
+        },
+        select: {
+          credits: true,
+        },
+      })
+    : await prismaClient?.user?.findFirst({
+        where: {
+          id: pool.userId,
+        },
+        select: {
+          credits: true,
+        },
+      });
+  return owner?.credits ?? 0;
+}
+
+// Pending ledger entry of a reservation, turned into the usage charge or deleted on release
+const HOLD_REASON_PREFIX = "hold:";
+
+// Reservation of a metered call; `id` is its ledger entry, null when nothing was held
+export type CreditHold = {
+  id: string | null;
+  credits: number;
+};
+
+// Conditional decrement so the balance never goes negative
+async function takeCredits(tx: Prisma.TransactionClient, pool: CreditPool, amount: number) {
+  const taken = pool.workspaceId
+    ? await tx.workspace.updateMany({
+        where: {
+          id: pool.workspaceId,
+          credits: { gte: amount },
+        },
+        data: {
+          credits: { decrement: amount },
+        },
+      })
+    : await tx.user.updateMany({
+        where: {
+          id: pool.userId,
+          credits: { gte: amount },
+        },
+        data: {
+          credits: { decrement: amount },
+        },
+      });
+  return taken.count > 0;
+}
+
+async function giveCredits(tx: Prisma.TransactionClient, pool: CreditPool, amount: number) {
+  if (pool.workspaceId) {
+    await tx.workspace.update({
+      where: {
+        id: pool.workspaceId,
+      },
+      data: {
+        credits: { increment: amount },
+      },
+    });
+  } else {
+    await tx.user.update({
+      where: {
+        id: pool.userId,
+      },
+      data: {
+        credits: { increment: amount },
+      },
+    });
+  }
+}
+
+/**
+ * Hold credits for a call before it runs. The balance and a pending ledger entry change
+ * together, so credits never leave the pool without a trace; returns null when the pool
+ * can't cover the amount.
+ */
+export async function reserveCredits(
+  pool: CreditPool,
+  amount: number,
+  usage: { tool: string; action: string }
+): Promise<CreditHold | null> {
+  if (amount <= 0) {
+    return { id: null, credits: 0 };
+  }
+
+  return prismaClient?.$transaction(async (tx) => {
+    if (!(await takeCredits(tx, pool, amount))) {
+      return null;
+    }
+    const hold = await tx.creditTransaction.create({
+      data: {
+        userId: pool.userId,
+        workspaceId: pool.workspaceId || null,
+        amount: -amount,
+        reason: `${HOLD_REASON_PREFIX}${usage.tool}.${usage.action}`,
+      },
+    });
+    return { id: hold.id, credits: amount };
+  });
+}
+
+// Give back a reservation when the call failed. Deleting the pending entry first makes
+// a second release a no-op.
+export async function releaseCredits(pool: CreditPool, hold: CreditHold) {
+  if (!hold.id) {
+    return;
+  }
+
+  await prismaClient?.$transaction(async (tx) => {
+    const released = await tx.creditTransaction.deleteMany({
+      where: {
+        id: hold.id!,
+        reason: { startsWith: HOLD_REASON_PREFIX },
+      },
+    });
+    if (released.count) {
+      await giveCredits(tx, pool, hold.credits);
+    }
+  });
+}
+
+/**
+ * Turn a reservation into the final charge: the balance difference, the ledger entry and
+ * the usage log are written together, and the charge is taken from the user's grants first.
+ * Returns the credits charged.
+ */
+export async function commitCredits(pool: CreditPool, hold: CreditHold, usage: UsageEntry) {
+  const workspaceId = pool.workspaceId || null;
+  const meta = usage.meta
+    ? (JSON.parse(JSON.stringify(usage.meta)) as Prisma.InputJsonValue)
+    : undefined;
+
+  return prismaClient?.$transaction(async (tx) => {
+    let credits = usage.credits;
+    if (credits > hold.credits && !(await takeCredits(tx, pool, credits - hold.credits))) {
+      // Uncapped price above what the pool still holds: charge the reservation only
+      credits = hold.credits;
+    } else if (credits < hold.credits) {
+      await giveCredits(tx, pool, hold.credits - credits);
+    }
+
+    const reason = `usage:${usage.tool}.${usage.action}`;
+    if (hold.id) {
+      const holdWhere = {
+        id: hold.id,
+        reason: { startsWith: HOLD_REASON_PREFIX },
+      };
+      const settled =
+        credits > 0
+          ? await tx.creditTransaction.updateMany({
+              where: holdWhere,
+              data: {
+                amount: -credits,
+                reason,
+              },
+            })
+          : await tx.creditTransaction.deleteMany({ where: holdWhere });
+      if (!settled.count) {
+        throw new Error("Credit reservation was already released");
+      }
+    } else if (credits > 0) {
+      await tx.creditTransaction.create({
+        data: {
+          userId: pool.userId,
+          workspaceId,
+          amount: -credits,
+          reason,
+        },
+      });
+    }
+
+    // Workspace pools have no grants
+    if (credits > 0 && !workspaceId) {
+      await consumeCreditGrants(tx, pool.userId, credits);
+    }
+    await tx.usageLog.create({
+      data: {
+        userId: pool.userId,
+        workspaceId,
+        tool: usage.tool,
+        action: usage.action,
+        credits,
+        providerCost:
+          usage.providerCost === undefined
+            ? null
+            : new Prisma.Decimal(usage.providerCost).toDecimalPlaces(6),
+        meta,
+      },
+    });
+    return credits;
+  });
+}
+
+const getStaleHoldMs = () => parseTimeString(process.env.CREDIT_HOLD_TIMEOUT || "1h");
+
+/**
+ * Release reservations left pending by calls that never settled (a crash or restart
+ * mid-request), so their credits return to the pool
+ */
+export async function releaseStaleCreditHolds() {
+  const holds = await prismaClient?.creditTransaction?.findMany({
+    where: {
+      reason: { startsWith: HOLD_REASON_PREFIX },
+      createdAt: { lt: new Date(Date.now() - getStaleHoldMs()) },
+    },
+    take: 100,
+  });
+
+  let released = 0;
+  for (const hold of holds || []) {
+    try {
+      await releaseCredits(
+        { userId: hold.userId, workspaceId: hold.workspaceId },
+        { id: hold.id, credits: -hold.amount }
+      );
+      released++;
+    } catch (error) {
+      logger.error("Credit hold release failed", {
+        creditTransactionId: hold.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return released;
+}
@@ -0,0 +1,400 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { logger } from "@/utils/logger";
+import { toPlanEntitlements } from "@/services/plan.service";
+import { getCurrentSubscription } from "@/services/subscription.service";
+import type { Prisma } from "prisma/generated/prisma/client";
+import type { CreditGrantKind } from "prisma/generated/prisma/enums";
+
+/**
+ * Spend open grants before purchased credits: promo credits closest to expiry first, then
+ * the plan allowance. Called with the amount just charged to the user's balance.
+ */
+export async function consumeCreditGrants(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number
+) {
+  if (amount <= 0) {
+    return;
+  }
+
+  const grants = await tx.creditGrant.findMany({
+    where: {
+      userId,
+      remaining: { gt: 0 },
+    },
+    orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+  });
+  // Stable sort: promo grants move ahead of the allowance, each keeping its expiry order
+  grants.sort((a, b) => Number(a.kind === "ALLOWANCE") - Number(b.kind === "ALLOWANCE"));
+
+  let left = amount;
+  for (const grant of grants) {
+    if (left <= 0) {
+      break;
+    }
+    const spent = Math.min(left, grant.remaining);
+    const updated = await tx.creditGrant.updateMany({
+      where: {
+        id: grant.id,
+        remaining: { gte: spent },
+      },
+      data: {
+        remaining: { decrement: spent },
+      },
+    });
+    if (updated.count) {
+      left -= spent;
+    }
+  }
+}
+
+// Credits of the balance that are still covered by open grants, i.e. that may lapse
+export async function getGrantedCredits(tx: Prisma.TransactionClient, userId: string) {
+  const granted = await tx.creditGrant.aggregate({
+    where: {
+      userId,
+      remaining: { gt: 0 },
+    },
+    _sum: {
+      remaining: true,
+    },
+  });
+  return granted._sum.remaining || 0;
+}
+
+// Take lapsed credits out of the balance, never below zero (a running call may hold some)
+async function debitLapsedCredits(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number,
+  reason: string
+) {
+  const user = await tx.user.findFirst({
+    where: {
+      id: userId,
+    },
+    select: {
+      credits: true,
+    },
+  });
+  const debit = Math.min(amount, user?.credits || 0);
+  if (debit <= 0) {
+    return;
+  }
+
+  await tx.user.update({
+    where: {
+      id: userId,
+    },
+    data: {
+      credits: { decrement: debit },
+    },
+  });
+  await tx.creditTransaction.create({
+    data: {
+      userId,
+      amount: -debit,
+      reason,
+    },
+  });
+}
+
+export async function grantPromoCredits(input: {
+  userId: string;
+  amount: number;
+  expiresAt: Date | null;
+  reason?: string | null;
+}) {
+  return prismaClient?.$transaction(async (tx) => {
+    await tx.user.update({
+      where: {
+        id: input.userId,
+      },
+      data: {
+        credits: { increment: input.amount },
+      },
+    });
+    await tx.creditTransaction.create({
+      data: {
+        userId: input.userId,
+        amount: input.amount,
+        reason: "promo_credit",
+      },
+    });
+    return tx.creditGrant.create({
+      data: {
+        userId: input.userId,
+        kind: "PROMO",
+        amount: input.amount,
+        remaining: input.amount,
+        expiresAt: input.expiresAt,
+        reason: input.reason || null,
+      },
+    });
+  });
+}
+
+// Live subscriptions whose current period has not received its allowance yet
+const allowanceDue = () => ({
+  OR: [
+    { allowanceGrantedFor: null },
+    { allowanceGrantedFor: { lt: prismaClient.subscription.fields.currentPeriodStart } },
+  ],
+});
+
+/**
+ * Grant the plan's monthly credits once per billing period. The unused part of the previous
+ * allowance rolls over up to the plan's cap, the rest lapses.
+ */
+export async function grantCreditAllowances() {
+  const subscriptions = await prismaClient?.subscription?.findMany({
+    where: {
+      status: { in: ["TRIALING", "ACTIVE"] },
+      ...allowanceDue(),
+    },
+    select: {
+      id: true,
+      userId: true,
+      currentPeriodStart: true,
+      planVersion: {
+        select: {
+          entitlements: true,
+        },
+      },
+    },
+    take: 100,
+  });
+
+  let granted = 0;
+  for (const subscription of subscriptions || []) {
+    try {
+      const done = await prismaClient?.$transaction(async (tx) => {
+        // Claim the period first so concurrent runs grant it once
+        const claimed = await tx.subscription.updateMany({
+          where: {
+            id: subscription.id,
+            currentPeriodStart: subscription.currentPeriodStart,
+            ...allowanceDue(),
+          },
+          data: {
+            allowanceGrantedFor: subscription.currentPeriodStart,
+          },
+        });
+        if (!claimed.count) {
+          return false;
+        }
+
+        const { monthlyCredits, creditRolloverCap } = toPlanEntitlements(
+          subscription.planVersion.entitlements
+        );
+
+        const previous = await tx.creditGrant.findMany({
+          where: {
+            userId: subscription.userId,
+            kind: "ALLOWANCE",
+            remaining: { gt: 0 },
+          },
+        });
+        const unused = previous.reduce((total, grant) => total + grant.remaining, 0);
+        const rollover = creditRolloverCap === null ? unused : Math.min(unused, creditRolloverCap);
+        if (previous.length) {
+          await tx.creditGrant.updateMany({
+            where: {
+              id: { in: previous.map((grant) => grant.id) },
+            },
+            data: {
+              remaining: 0,
+            },
+          });
+          await debitLapsedCredits(tx, subscription.userId, unused - rollover, "allowance_expired");
+        }
+
+        if (monthlyCredits + rollover > 0) {
+          await tx.creditGrant.create({
+            data: {
+              userId: subscription.userId,
+              kind: "ALLOWANCE",
+              amount: monthlyCredits + rollover,
+              remaining: monthlyCredits + rollover,
+              subscriptionId: subscription.id,
+              reason: rollover ? `plan_allowance (+${rollover} rolled over)` : "plan_allowance",
+            },
+          });
+        }
+        if (monthlyCredits > 0) {
+          await tx.user.update({
+            where: {
+              id: subscription.userId,
+            },
+            data: {
+              credits: { increment: monthlyCredits },
+            },
+          });
+          await tx.creditTransaction.create({
+            data: {
+              userId: subscription.userId,
+              amount: monthlyCredits,
+              reason: "plan_allowance",
+            },
+          });
+        }
+        return true;
+      });
+      if (done) {
+        granted++;
+      }
+    } catch (error) {
+      logger.error("Credit allowance failed", {
+        subscriptionId: subscription.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return granted;
+}
+
+/**
+ * Remove what is left of expired promo grants, and of the allowance of subscriptions
+ * that have ended, from the balance
+ */
+export async function expireCreditGrants() {
+  const grants = await prismaClient?.creditGrant?.findMany({
+    where: {
+      remaining: { gt: 0 },
+      OR: [
+        { expiresAt: { lte: new Date() } },
+        {
+          kind: "ALLOWANCE",
+          OR: [
+            { subscriptionId: null },
+            { subscription: { status: { in: ["CANCELED", "EXPIRED"] } } },
+          ],
+        },
+      ],
+    },
+    take: 100,
+  });
+
+  let expired = 0;
+  for (const grant of grants || []) {
+    try {
+      const done = await prismaClient?.$transaction(async (tx) => {
+        const updated = await tx.creditGrant.updateMany({
+          where: {
+            id: grant.id,
+            remaining: grant.remaining,
+          },
+          data: {
+            remaining: 0,
+          },
+        });
+        if (!updated.count) {
+          return false;
+        }
+
+        await debitLapsedCredits(
+          tx,
+          grant.userId,
+          grant.remaining,
+          grant.kind === "PROMO" ? "promo_expired" : "allowance_expired"
+        );
+        return true;
+      });
+      if (done) {
+        expired++;
+      }
+    } catch (error) {
+      logger.error("Credit grant expiry failed", {
+        creditGrantId: grant.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return expired;
+}
+
+export async function refreshCreditGrants() {
+  const granted = await grantCreditAllowances();
+  const expired = await expireCreditGrants();
+  return { granted, expired };
+}
+
+/**
+ * Balance of a user with the grants it contains, what lapses next and the next refill
+ */
+export async function getCreditSummary(userId: string) {
+  const [user, grants, subscription] = await Promise.all([
+    prismaClient?.user?.findFirst({
+      where: {
+        id: userId,
+      },
+      select: {
+        credits: true,
+      },
+    }),
+    prismaClient?.creditGrant?.findMany({
+      where: {
+        userId,
+        remaining: { gt: 0 },
+      },
+      select: {
+        id: true,
+        kind: true,
+        amount: true,
+        remaining: true,
+        expiresAt: true,
+        reason: true,
+        createdAt: true,
+      },
+      orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    }),
+    getCurrentSubscription(userId),
+  ]);
+
+  const openGrants = grants || [];
+  const expiring: Array<{ kind: CreditGrantKind; credits: number; expiresAt: Date }> =
+    openGrants.flatMap((grant) =>
+      grant.kind === "PROMO" && grant.expiresAt
+        ? [{ kind: grant.kind, credits: grant.remaining, expiresAt: grant.expiresAt }]
+        : []
+    );
+
+  let nextRefill = null;
+  const allowance = openGrants
+    .filter((grant) => grant.kind === "ALLOWANCE")
+    .reduce((total, grant) => total + grant.remaining, 0);
+  // A past due subscription gets no refill until it is paid
+  if (subscription && subscription.status !== "PAST_DUE") {
+    // The refill applies the plan in effect next period
+    const next = toPlanEntitlements(
+      (subscription.pendingPlanVersion || subscription.planVersion).entitlements
+    );
+    const kept = subscription.cancelAtPeriodEnd ? 0 : (next.creditRolloverCap ?? allowance);
+    if (allowance > kept) {
+      expiring.push({
+        kind: "ALLOWANCE",
+        credits: allowance - kept,
+        expiresAt: subscription.currentPeriodEnd,
+      });
+    }
+    if (!subscription.cancelAtPeriodEnd) {
+      nextRefill = {
+        at: subscription.currentPeriodEnd,
+        credits: next.monthlyCredits,
+        rolloverCap: next.creditRolloverCap,
+      };
+    }
+  }
+
+  expiring.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+
+  return {
+    balance: user?.credits || 0,
+    grants: openGrants,
+    expiring,
+    nextRefill,
+  };
+}
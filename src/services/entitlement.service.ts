@@ -0,0 +1,136 @@
+import { prismaClient } from "@/lib/prismaClient";
+import {
+  FREE_ENTITLEMENTS,
+  toPlanEntitlements,
+  type PlanEntitlements,
+  type PlanLimit,
+} from "@/services/plan.service";
+import { getCurrentSubscription } from "@/services/subscription.service";
+
+// Where a limit is checked: in the workspace when the request works in one, otherwise for the user
+export type EntitlementScope = {
+  userId: string;
+  workspaceId?: string | null;
+};
+
+export const startOfMonth = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+export const startOfNextMonth = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+type UsageCounter = (scope: EntitlementScope) => Promise<number>;
+
+// Whose plan applies: the workspace owner's inside a workspace, otherwise the user's own
+async function getPlanHolderId(scope: EntitlementScope) {
+  if (!scope.workspaceId) {
+    return scope.userId;
+  }
+  const owner = await prismaClient?.workspaceMember?.findFirst({
+    where: {
+      workspaceId: scope.workspaceId,
+      role: "OWNER",
+    },
+    select: {
+      userId: true,
+    },
+  });
+  return owner?.userId || scope.userId;
+}
+
+/**
+ * Projects and lookups count against the plan holder's limits wherever they were made: in
+ * their personal scope and in every workspace they own, so extra workspaces don't multiply
+ * the plan.
+ */
+async function getPlanHolderUsageFilter(scope: EntitlementScope) {
+  const planHolderId = await getPlanHolderId(scope);
+  const ownedWorkspaces =
+    (await prismaClient?.workspaceMember?.findMany({
+      where: {
+        userId: planHolderId,
+        role: "OWNER",
+      },
+      select: {
+        workspaceId: true,
+      },
+    })) || [];
+
+  return {
+    OR: [
+      { userId: planHolderId, workspaceId: null },
+      { workspaceId: { in: ownedWorkspaces.map((member) => member.workspaceId) } },
+    ],
+  };
+}
+
+// Current usage of each limit that has something to count
+const USAGE_COUNTERS = {
+  maxProjects: async (scope) =>
+    (await prismaClient?.project?.count({
+      where: await getPlanHolderUsageFilter(scope),
+    })) || 0,
+
+  monthlySeoLookups: async (scope) =>
+    (await prismaClient?.usageLog?.count({
+      where: {
+        ...(await getPlanHolderUsageFilter(scope)),
+        createdAt: { gte: startOfMonth() },
+      },
+    })) || 0,
+
+  // Pending invitations hold a seat so a batch of invites can't overshoot the limit
+  maxWorkspaceMembers: async (scope) => {
+    if (!scope.workspaceId) {
+      return 0;
+    }
+    const [members, invitations] = await Promise.all([
+      prismaClient?.workspaceMember?.count({
+        where: {
+          workspaceId: scope.workspaceId,
+        },
+      }),
+      prismaClient?.workspaceInvitation?.count({
+        where: {
+          workspaceId: scope.workspaceId,
+          acceptedAt: null,
+          declinedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+      }),
+    ]);
+    return (members || 0) + (invitations || 0);
+  },
+} satisfies Partial<Record<PlanLimit, UsageCounter>>;
+
+export type CountedLimit = keyof typeof USAGE_COUNTERS;
+
+/**
+ * Entitlements that apply to the scope: those of the workspace owner's plan inside a
+ * workspace, otherwise the user's own. No subscription means the free entitlements.
+ */
+export async function getEntitlements(scope: EntitlementScope): Promise<PlanEntitlements> {
+  const subscription = await getCurrentSubscription(await getPlanHolderId(scope));
+  return subscription
+    ? toPlanEntitlements(subscription.planVersion.entitlements)
+    : FREE_ENTITLEMENTS;
+}
+
+export async function getLimitUsage(limit: CountedLimit, scope: EntitlementScope) {
+  return USAGE_COUNTERS[limit](scope);
+}
+
+// Every limit with its current usage, for the account page
+export async function getEntitlementUsage(scope: EntitlementScope) {
+  const entitlements = await getEntitlements(scope);
+  const limits = await Promise.all(
+    (Object.keys(USAGE_COUNTERS) as CountedLimit[]).map(async (limit) => ({
+      limit,
+      allowed: entitlements[limit],
+      usage: await getLimitUsage(limit, scope),
+    }))
+  );
+
+  return { entitlements, limits, lookupsResetAt: startOfNextMonth() };
+}
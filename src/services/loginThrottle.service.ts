@@ -0,0 +1,127 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { parseTimeString } from "@/utils/helperFunctions";
+import { logger } from "@/utils/logger";
+
+const throttleConfig = () => ({
+  // Failed attempts allowed before progressive delays kick in
+  freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS || "3", 10),
+  maxDelayMs: parseTimeString(process.env.LOGIN_MAX_DELAY || "30s"),
+  // Failed attempts before the key is locked out
+  accountMaxAttempts: parseInt(process.env.LOGIN_ACCOUNT_MAX_ATTEMPTS || "10", 10),
+  ipMaxAttempts: parseInt(process.env.LOGIN_IP_MAX_ATTEMPTS || "50", 10),
+  lockoutMs: parseTimeString(process.env.LOGIN_LOCKOUT_DURATION || "15m"),
+  // Counters older than this start over
+  windowMs: parseTimeString(process.env.LOGIN_ATTEMPT_WINDOW || "1h"),
+});
+
+// Accounts are keyed by the submitted email so unknown emails behave exactly like real ones
+export const accountThrottleKey = (email: string) => `account:${email.trim().toLowerCase()}`;
+export const twoFactorThrottleKey = (userId: string) => `2fa:${userId}`;
+export const ipThrottleKey = (ipAddress?: string) => `ip:${ipAddress || "unknown"}`;
+
+const getDelayMs = (failedCount: number) => {
+  const { freeAttempts, maxDelayMs } = throttleConfig();
+  if (failedCount < freeAttempts) {
+    return 0;
+  }
+  // 1s, 2s, 4s, ... capped at maxDelayMs
+  return Math.min(1000 * 2 ** (failedCount - freeAttempts), maxDelayMs);
+};
+
+/**
+ * Check whether a login attempt is currently allowed for every key
+ */
+export async function checkLoginThrottle(keys: string[]) {
+  const attempts = await prismaClient?.loginAttempt?.findMany({
+    where: {
+      key: { in: keys },
+    },
+  });
+
+  const now = Date.now();
+  let retryAfterMs = 0;
+  let locked = false;
+
+  for (const attempt of attempts || []) {
+    if (attempt.lockedUntil && attempt.lockedUntil.getTime() > now) {
+      locked = true;
+      retryAfterMs = Math.max(retryAfterMs, attempt.lockedUntil.getTime() - now);
+      continue;
+    }
+
+    if (attempt.lastFailedAt) {
+      const nextAllowedAt = attempt.lastFailedAt.getTime() + getDelayMs(attempt.failedCount);
+      retryAfterMs = Math.max(retryAfterMs, nextAllowedAt - now);
+    }
+  }
+
+  return { allowed: retryAfterMs <= 0, locked, retryAfterMs: Math.max(retryAfterMs, 0) };
+}
+
+/**
+ * Register a failed login for every key, locking a key once it reaches its threshold.
+ * The counter is incremented atomically so parallel attempts all count towards the lock.
+ */
+export async function recordLoginFailure(keys: string[]) {
+  const { accountMaxAttempts, ipMaxAttempts, lockoutMs, windowMs } = throttleConfig();
+  const now = new Date();
+
+  for (const key of keys) {
+    // Counters older than the window start over
+    await prismaClient?.loginAttempt?.updateMany({
+      where: {
+        key,
+        lastFailedAt: { lt: new Date(now.getTime() - windowMs) },
+      },
+      data: {
+        failedCount: 0,
+      },
+    });
+
+    const attempt = await prismaClient?.loginAttempt?.upsert({
+      where: {
+        key,
+      },
+      create: {
+        key,
+        failedCount: 1,
+        lastFailedAt: now,
+      },
+      update: {
+        failedCount: { increment: 1 },
+        lastFailedAt: now,
+      },
+    });
+
+    const maxAttempts = key.startsWith("ip:") ? ipMaxAttempts : accountMaxAttempts;
+    if (!attempt || attempt.failedCount < maxAttempts) {
+      continue;
+    }
+
+    // The counter starts over once a lockout has been applied; only one racing request applies it
+    const locked = await prismaClient?.loginAttempt?.updateMany({
+      where: {
+        key,
+        failedCount: { gte: maxAttempts },
+      },
+      data: {
+        failedCount: 0,
+        lockedUntil: new Date(now.getTime() + lockoutMs),
+      },
+    });
+    if (locked?.count) {
+      logger.warn("Security Event: login lockout", { key, failedCount: attempt.failedCount });
+    }
+  }
+}
+
+/**
+ * Reset the failed attempt counters (after a successful login or an admin unlock)
+ */
+export async function clearLoginFailures(keys: string[]) {
+  return prismaClient?.loginAttempt?.deleteMany({
+    where: {
+      key: { in: keys },
+    },
+  });
+}
@@ -0,0 +1,123 @@
+import axios, { type AxiosInstance } from "axios";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { logger } from "@/utils/logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+interface MailServiceConfig {
+  from: string;
+  // Either a built-in transport name or a custom transport implementation
+  transport?: "console" | "file" | "http" | MailTransport;
+  fileDir?: string; // Used by the "file" transport
+  httpUrl?: string; // Used by the "http" transport
+  httpApiKey?: string;
+}
+
+/**
+ * Logs outgoing mails instead of delivering them (development default)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(mail: OutgoingMail) {
+    logger.info("Outgoing Mail", {
+      from: mail.from,
+      to: mail.to,
+      subject: mail.subject,
+      text: mail.text,
+    });
+  }
+}
+
+/**
+ * Writes every outgoing mail as a JSON file so it can be inspected locally
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(mail: OutgoingMail) {
+    await mkdir(this.dir, { recursive: true });
+
+    const fileName = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}.json`;
+    await writeFile(
+      join(this.dir, fileName),
+      JSON.stringify({ ...mail, createdAt: new Date().toISOString() }, null, 2)
+    );
+
+    logger.info("Mail written to file", { to: mail.to, subject: mail.subject, fileName });
+  }
+}
+
+/**
+ * Posts outgoing mails as JSON to a mail provider / relay HTTP endpoint
+ */
+export class HttpMailTransport implements MailTransport {
+  private client: AxiosInstance;
+
+  constructor(url: string, apiKey?: string) {
+    this.client = axios.create({
+      baseURL: url,
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      timeout: 15000,
+    });
+  }
+
+  async send(mail: OutgoingMail) {
+    await this.client.post("", mail);
+  }
+}
+
+export class MailService {
+  private transport: MailTransport;
+  private from: string;
+
+  constructor(config: MailServiceConfig) {
+    this.from = config.from;
+
+    if (typeof config.transport === "object") {
+      this.transport = config.transport;
+    } else if (config.transport === "file") {
+      this.transport = new FileMailTransport(config.fileDir || "tmp/mails");
+    } else if (config.transport === "http") {
+      if (!config.httpUrl) {
+        throw new Error("Mail http transport requires 'httpUrl'");
+      }
+      this.transport = new HttpMailTransport(config.httpUrl, config.httpApiKey);
+    } else {
+      this.transport = new ConsoleMailTransport();
+    }
+  }
+
+  async send(message: MailMessage) {
+    try {
+      await this.transport.send({ ...message, from: this.from });
+    } catch (error: any) {
+      logger.error("Mail Delivery Failed", {
+        to: message.to,
+        subject: message.subject,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance factory
+export const createMailService = (config: MailServiceConfig) => {
+  return new MailService(config);
+};
@@ -0,0 +1,158 @@
+import axios from "axios";
+import { createHash, randomBytes } from "crypto";
+import { logger } from "@/utils/logger";
+import type { AuthProvider } from "prisma/generated/prisma/enums";
+
+export type OAuthProvider = Exclude<AuthProvider, "EMAIL">;
+
+interface OAuthProviderConfig {
+  clientId: string;
+  clientSecret: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  emailsUrl?: string; // GitHub only: used when the primary email is private
+  scope: string;
+  redirectUri: string;
+}
+
+export interface OAuthProfile {
+  providerAccountId: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  avatarUrl: string | null;
+}
+
+// PKCE (RFC 7636) helpers
+export const generateCodeVerifier = () => randomBytes(32).toString("base64url");
+
+export const generateCodeChallenge = (codeVerifier: string) =>
+  createHash("sha256").update(codeVerifier).digest("base64url");
+
+export const generateOAuthState = () => randomBytes(24).toString("base64url");
+
+export class OAuthService {
+  constructor(
+    public provider: OAuthProvider,
+    private config: OAuthProviderConfig
+  ) {}
+
+  isConfigured() {
+    return !!(this.config.clientId && this.config.clientSecret);
+  }
+
+  /**
+   * Build the provider authorization URL (authorization code + PKCE)
+   */
+  getAuthorizationUrl(params: { state: string; codeChallenge: string }) {
+    const url = new URL(this.config.authorizationUrl);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", this.config.clientId);
+    url.searchParams.set("redirect_uri", this.config.redirectUri);
+    url.searchParams.set("scope", this.config.scope);
+    url.searchParams.set("state", params.state);
+    url.searchParams.set("code_challenge", params.codeChallenge);
+    url.searchParams.set("code_challenge_method", "S256");
+    return url.toString();
+  }
+
+  /**
+   * Exchange the authorization code for a provider access token
+   */
+  async exchangeCode(params: { code: string; codeVerifier: string }): Promise<string> {
+    try {
+      const response = await axios.post(
+        this.config.tokenUrl,
+        new URLSearchParams({
+          grant_type: "authorization_code",
+          code: params.code,
+          redirect_uri: this.config.redirectUri,
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          code_verifier: params.codeVerifier,
+        }).toString(),
+        {
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            Accept: "application/json",
+          },
+          timeout: 15000,
+        }
+      );
+
+      if (!response.data?.access_token) {
+        throw new Error(response.data?.error_description || "No access token returned");
+      }
+
+      return response.data.access_token;
+    } catch (error: any) {
+      logger.error("OAuth Token Exchange Failed", {
+        provider: this.provider,
+        error: error.message,
+        response: error.response?.data,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the normalized user profile from the provider
+   */
+  async getProfile(accessToken: string): Promise<OAuthProfile> {
+    const headers = {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/json",
+    };
+
+    try {
+      const { data } = await axios.get(this.config.userInfoUrl, { headers, timeout: 15000 });
+
+      if (this.provider === "GOOGLE") {
+        return {
+          providerAccountId: String(data.sub),
+          email: data.email || null,
+          emailVerified: data.email_verified === true || data.email_verified === "true",
+          name: data.name || null,
+          avatarUrl: data.picture || null,
+        };
+      }
+
+      // GitHub only exposes the verification state through the emails endpoint
+      let email: string | null = null;
+      let emailVerified = false;
+      if (this.config.emailsUrl) {
+        const { data: emails } = await axios.get(this.config.emailsUrl, {
+          headers,
+          timeout: 15000,
+        });
+        const primary = Array.isArray(emails)
+          ? emails.find((item: any) => item.primary) || emails[0]
+          : null;
+        email = primary?.email || null;
+        emailVerified = primary?.verified === true;
+      } else {
+        email = data.email || null;
+      }
+
+      return {
+        providerAccountId: String(data.id),
+        email,
+        emailVerified,
+        name: data.name || data.login || null,
+        avatarUrl: data.avatar_url || null,
+      };
+    } catch (error: any) {
+      logger.error("OAuth Profile Request Failed", {
+        provider: this.provider,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance factory
+export const createOAuthService = (provider: OAuthProvider, config: OAuthProviderConfig) => {
+  return new OAuthService(provider, config);
+};
@@ -0,0 +1,313 @@
+import axios, { type AxiosInstance } from "axios";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { logger } from "@/utils/logger";
+
+export type PaymentEventType =
+  | "checkout.completed"
+  | "checkout.expired"
+  | "invoice.paid"
+  | "invoice.payment_failed"
+  | "subscription.canceled";
+
+export const PAYMENT_EVENT_TYPES: PaymentEventType[] = [
+  "checkout.completed",
+  "checkout.expired",
+  "invoice.paid",
+  "invoice.payment_failed",
+  "subscription.canceled",
+];
+
+// Provider-neutral webhook event; adapters translate their own payloads into this shape
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  data: {
+    sessionId?: string;
+    providerSubscriptionId?: string;
+  };
+  raw: unknown;
+}
+
+export interface CheckoutSessionInput {
+  checkoutId: string;
+  mode: "subscription" | "payment";
+  amount: string;
+  currency: string;
+  description: string;
+  customerEmail?: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+export interface SubscriptionPriceChange {
+  // New recurring price per period
+  amount: string;
+  currency: string;
+  description: string;
+  // Charged right away on its own invoice, 0 for none
+  prorationAmount: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createCheckoutSession(input: CheckoutSessionInput): Promise<CheckoutSession>;
+  setCancelAtPeriodEnd(providerSubscriptionId: string, cancel: boolean): Promise<void>;
+  // Switches the recurring price and invoices the proration; throws when nothing was changed
+  changeSubscriptionPrice(
+    providerSubscriptionId: string,
+    change: SubscriptionPriceChange
+  ): Promise<void>;
+  // Throws when the signature is missing, wrong or too old
+  parseWebhook(rawBody: Buffer, signatureHeader: string | undefined): PaymentEvent;
+}
+
+interface PaymentServiceConfig {
+  // Either a built-in provider name or a custom provider implementation
+  provider?: "fake" | "http" | PaymentProvider;
+  webhookSecret?: string;
+  webhookTolerance?: number; // Seconds a signed webhook stays valid
+  checkoutUrl?: string; // Used by the "fake" provider
+  httpUrl?: string; // Used by the "http" provider
+  httpApiKey?: string;
+}
+
+export class WebhookSignatureError extends Error {}
+
+/**
+ * Signature header for a webhook body: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`
+ */
+export function signWebhookPayload(
+  rawBody: string | Buffer,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+) {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody.toString()}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export function verifyWebhookSignature(
+  rawBody: Buffer,
+  signatureHeader: string | undefined,
+  secret: string,
+  toleranceSeconds: number
+) {
+  if (!secret) {
+    throw new WebhookSignatureError("Webhook secret is not configured");
+  }
+  if (!signatureHeader) {
+    throw new WebhookSignatureError("Missing webhook signature");
+  }
+
+  const parts = Object.fromEntries(
+    signatureHeader.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) {
+    throw new WebhookSignatureError("Malformed webhook signature");
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    throw new WebhookSignatureError("Webhook timestamp is outside the tolerance");
+  }
+
+  const expected = Buffer.from(signWebhookPayload(rawBody, secret, timestamp).split("v1=")[1]!);
+  const received = Buffer.from(String(parts.v1));
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new WebhookSignatureError("Invalid webhook signature");
+  }
+}
+
+// Both built-in providers post the provider-neutral event shape
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPaymentEventType = (value: unknown): value is PaymentEventType =>
+  PAYMENT_EVENT_TYPES.includes(value as PaymentEventType);
+
+// Ids may be sent as strings or numbers
+const toOptionalId = (value: unknown) =>
+  (typeof value === "string" && value !== "") || typeof value === "number"
+    ? String(value)
+    : undefined;
+
+const parseNeutralEvent = (rawBody: Buffer): PaymentEvent => {
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody.toString());
+  } catch {
+    throw new WebhookSignatureError("Webhook body is not valid JSON");
+  }
+  if (!isRecord(body)) {
+    throw new WebhookSignatureError("Unsupported webhook event");
+  }
+  const id = toOptionalId(body.id);
+  if (!id || !isPaymentEventType(body.type)) {
+    throw new WebhookSignatureError("Unsupported webhook event");
+  }
+
+  const data = isRecord(body.data) ? body.data : {};
+  return {
+    id,
+    type: body.type,
+    data: {
+      sessionId: toOptionalId(data.sessionId),
+      providerSubscriptionId: toOptionalId(data.providerSubscriptionId),
+    },
+    raw: body,
+  };
+};
+
+/**
+ * Local stand-in for a payment provider, for development. Checkout sessions point to
+ * a fake checkout page and webhooks are signed with the configured secret, so recorded
+ * fixtures can be replayed with `signWebhookPayload`.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  name = "fake";
+
+  constructor(
+    private checkoutUrl: string,
+    private webhookSecret: string,
+    private webhookTolerance: number
+  ) {}
+
+  async createCheckoutSession(input: CheckoutSessionInput) {
+    const id = `cs_fake_${randomBytes(12).toString("hex")}`;
+    const url = new URL(this.checkoutUrl);
+    url.searchParams.set("session_id", id);
+    logger.info("Fake Checkout Session", { id, checkoutId: input.checkoutId });
+    return { id, url: url.toString() };
+  }
+
+  async setCancelAtPeriodEnd(providerSubscriptionId: string, cancel: boolean) {
+    logger.info("Fake Subscription Update", { providerSubscriptionId, cancelAtPeriodEnd: cancel });
+  }
+
+  async changeSubscriptionPrice(providerSubscriptionId: string, change: SubscriptionPriceChange) {
+    logger.info("Fake Subscription Price Change", { providerSubscriptionId, ...change });
+  }
+
+  parseWebhook(rawBody: Buffer, signatureHeader: string | undefined) {
+    verifyWebhookSignature(rawBody, signatureHeader, this.webhookSecret, this.webhookTolerance);
+    return parseNeutralEvent(rawBody);
+  }
+}
+
+/**
+ * Talks to a payment gateway / billing relay exposing the provider-neutral HTTP API
+ */
+export class HttpPaymentProvider implements PaymentProvider {
+  name = "http";
+  private client: AxiosInstance;
+
+  constructor(
+    url: string,
+    apiKey: string | undefined,
+    private webhookSecret: string,
+    private webhookTolerance: number
+  ) {
+    this.client = axios.create({
+      baseURL: url,
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      timeout: 15000,
+    });
+  }
+
+  async createCheckoutSession(input: CheckoutSessionInput) {
+    const response = await this.client.post("/checkout-sessions", input);
+    if (!response.data?.id || !response.data?.url) {
+      throw new Error("Payment provider returned an invalid checkout session");
+    }
+    return { id: String(response.data.id), url: String(response.data.url) };
+  }
+
+  async setCancelAtPeriodEnd(providerSubscriptionId: string, cancel: boolean) {
+    await this.client.post(`/subscriptions/${encodeURIComponent(providerSubscriptionId)}`, {
+      cancelAtPeriodEnd: cancel,
+    });
+  }
+
+  async changeSubscriptionPrice(providerSubscriptionId: string, change: SubscriptionPriceChange) {
+    await this.client.post(
+      `/subscriptions/${encodeURIComponent(providerSubscriptionId)}/price`,
+      change
+    );
+  }
+
+  parseWebhook(rawBody: Buffer, signatureHeader: string | undefined) {
+    verifyWebhookSignature(rawBody, signatureHeader, this.webhookSecret, this.webhookTolerance);
+    return parseNeutralEvent(rawBody);
+  }
+}
+
+export class PaymentService {
+  private provider: PaymentProvider;
+
+  constructor(config: PaymentServiceConfig) {
+    const webhookSecret = config.webhookSecret || "";
+    const webhookTolerance = config.webhookTolerance || 300;
+
+    if (typeof config.provider === "object") {
+      this.provider = config.provider;
+    } else if (config.provider === "http") {
+      if (!config.httpUrl) {
+        throw new Error("Payment http provider requires 'httpUrl'");
+      }
+      // Without a secret every webhook would be rejected, so real payments would never land
+      if (!webhookSecret) {
+        throw new Error("Payment http provider requires 'webhookSecret'");
+      }
+      this.provider = new HttpPaymentProvider(
+        config.httpUrl,
+        config.httpApiKey,
+        webhookSecret,
+        webhookTolerance
+      );
+    } else if (config.provider === "fake") {
+      this.provider = new FakePaymentProvider(
+        config.checkoutUrl || "http://localhost:3000/billing/fake-checkout",
+        webhookSecret,
+        webhookTolerance
+      );
+    } else {
+      // No silent fallback: a deploy missing its provider must not hand out plans for free
+      throw new Error(`Unknown payment provider '${config.provider ?? ""}', expected fake or http`);
+    }
+  }
+
+  get providerName() {
+    return this.provider.name;
+  }
+
+  createCheckoutSession(input: CheckoutSessionInput) {
+    return this.provider.createCheckoutSession(input);
+  }
+
+  setCancelAtPeriodEnd(providerSubscriptionId: string, cancel: boolean) {
+    return this.provider.setCancelAtPeriodEnd(providerSubscriptionId, cancel);
+  }
+
+  changeSubscriptionPrice(providerSubscriptionId: string, change: SubscriptionPriceChange) {
+    return this.provider.changeSubscriptionPrice(providerSubscriptionId, change);
+  }
+
+  parseWebhook(rawBody: Buffer, signatureHeader: string | undefined) {
+    return this.provider.parseWebhook(rawBody, signatureHeader);
+  }
+}
+
+export const createPaymentService = (config: PaymentServiceConfig) => {
+  return new PaymentService(config);
+};
@@ -0,0 +1,237 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { parseTimeString } from "@/utils/helperFunctions";
+import type { UserStatus } from "prisma/generated/prisma/enums";
+
+export type PermissionAction =
+  | "canReadList"
+  | "canReadSingle"
+  | "canCreate"
+  | "canUpdate"
+  | "canDelete";
+
+export type UserAccess = {
+  userId: string;
+  status: UserStatus;
+  roleId: string;
+  roleName?: string;
+  permissions: Array<{ module: string } & Record<PermissionAction, boolean>>;
+};
+
+type CachedAccess = {
+  access: UserAccess;
+  // `${user.permissionsVersion}:${role.permissionsVersion}` at load time
+  version: string;
+  // Sessions of the user that were live when the entry was last checked
+  sessionIds: Set<string>;
+  checkedAt: number;
+};
+
+// Least recently used first: Map keeps insertion order and entries are re-inserted on use
+const accessCache = new Map<string, CachedAccess>();
+
+const getCacheTtlMs = () => parseTimeString(process.env.PERMISSION_CACHE_TTL || "30s");
+
+const getCacheMaxEntries = () => Number(process.env.PERMISSION_CACHE_MAX_ENTRIES) || 10000;
+
+const getCachedAccess = (userId: string) => {
+  const cached = accessCache.get(userId);
+  if (cached) {
+    accessCache.delete(userId);
+    accessCache.set(userId, cached);
+  }
+  return cached;
+};
+
+// Evicts the least recently used users once the cache is full
+const setCachedAccess = (userId: string, entry: CachedAccess) => {
+  accessCache.delete(userId);
+  accessCache.set(userId, entry);
+  for (const oldest of accessCache.keys()) {
+    if (accessCache.size <= getCacheMaxEntries()) {
+      break;
+    }
+    accessCache.delete(oldest);
+  }
+};
+
+const liveSessionsSelect = () => ({
+  where: {
+    expiresAt: { gt: new Date() },
+  },
+  select: {
+    id: true,
+  },
+});
+
+const getAccessVersion = async (userId: string) => {
+  const user = await prismaClient?.user?.findFirst({
+    where: {
+      id: userId,
+    },
+    select: {
+      permissionsVersion: true,
+      role: {
+        select: {
+          permissionsVersion: true,
+        },
+      },
+      sessions: liveSessionsSelect(),
+    },
+  });
+  if (!user) {
+    return null;
+  }
+  return {
+    version: `${user.permissionsVersion}:${user.role?.permissionsVersion ?? 0}`,
+    sessionIds: new Set(user.sessions.map((session) => session.id)),
+  };
+};
+
+const loadUserAccess = async (userId: string) => {
+  const user = await prismaClient?.user?.findFirst({
+    where: {
+      id: userId,
+    },
+    select: {
+      id: true,
+      status: true,
+      roleId: true,
+      permissionsVersion: true,
+      sessions: liveSessionsSelect(),
+      role: {
+        select: {
+          name: true,
+          permissionsVersion: true,
+          permissions: {
+            select: {
+              canReadList: true,
+              canReadSingle: true,
+              canCreate: true,
+              canUpdate: true,
+              canDelete: true,
+              module: {
+                select: {
+                  name: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!user) {
+    return null;
+  }
+
+  const access: UserAccess = {
+    userId: user.id,
+    status: user.status,
+    roleId: user.roleId,
+    roleName: user.role?.name,
+    permissions: (user.role?.permissions || []).map(({ module, ...actions }) => ({
+      module: module?.name || "",
+      ...actions,
+    })),
+  };
+
+  return {
+    access,
+    version: `${user.permissionsVersion}:${user.role?.permissionsVersion ?? 0}`,
+    sessionIds: new Set(user.sessions.map((session) => session.id)),
+  };
+};
+
+/**
+ * Resolve the status, role and permissions of a user. With a `sessionId`, null is also
+ * returned once that session is gone (logout, revocation, password reset).
+ * Results are cached per user; once the TTL expires only the permission versions and live
+ * sessions are re-read and the full lookup is repeated when a version changed.
+ */
+export async function resolveUserAccess(
+  userId: string,
+  sessionId?: string
+): Promise<UserAccess | null> {
+  const cached = getCachedAccess(userId);
+  const now = Date.now();
+  const hasSession = (entry: { sessionIds: Set<string> }) =>
+    !sessionId || entry.sessionIds.has(sessionId);
+
+  if (cached) {
+    // A session unknown to the entry may have been created since, so it is always re-checked
+    if (now - cached.checkedAt < getCacheTtlMs() && hasSession(cached)) {
+      return cached.access;
+    }
+
+    const current = await getAccessVersion(userId);
+    if (current === null) {
+      accessCache.delete(userId);
+      return null;
+    }
+    if (current.version === cached.version) {
+      cached.sessionIds = current.sessionIds;
+      cached.checkedAt = now;
+      return hasSession(cached) ? cached.access : null;
+    }
+  }
+
+  const loaded = await loadUserAccess(userId);
+  if (!loaded) {
+    accessCache.delete(userId);
+    return null;
+  }
+
+  setCachedAccess(userId, { ...loaded, checkedAt: now });
+  return hasSession(loaded) ? loaded.access : null;
+}
+
+export function hasPermission(access: UserAccess, module: string, action: PermissionAction) {
+  // Admin bypass - admins have full access
+  if (access.roleName === "admin") {
+    return true;
+  }
+  return access.permissions.some(
+    (permission) => permission.module === module && permission[action] === true
+  );
+}
+
+/**
+ * Drop the cached access of a user so revoked sessions are rejected right away
+ */
+export function forgetUserSessions(userId: string) {
+  accessCache.delete(userId);
+}
+
+/**
+ * Invalidate the cached permissions of a user (role or status change)
+ */
+export async function bumpUserPermissionsVersion(userId: string) {
+  accessCache.delete(userId);
+  return prismaClient?.user?.updateMany({
+    where: {
+      id: userId,
+    },
+    data: {
+      permissionsVersion: { increment: 1 },
+    },
+  });
+}
+
+/**
+ * Invalidate the cached permissions of every user of a role (permission matrix change)
+ */
+export async function bumpRolePermissionsVersion(roleId: string) {
+  for (const [userId, cached] of accessCache) {
+    if (cached.access.roleId === roleId) {
+      accessCache.delete(userId);
+    }
+  }
+  return prismaClient?.role?.updateMany({
+    where: {
+      id: roleId,
+    },
+    data: {
+      permissionsVersion: { increment: 1 },
+    },
+  });
+}
@@ -0,0 +1,235 @@
+import type { PlanCurrency } from "prisma/generated/prisma/enums";
+import type { Prisma } from "prisma/generated/prisma/client";
+import type { PlanVersionUncheckedCreateInput } from "prisma/generated/prisma/models";
+
+export type PlanFeature = {
+  label: string;
+  highlight?: boolean;
+  badge?: string;
+};
+
+const MAX_PLAN_FEATURES = 30;
+const MAX_FEATURE_LABEL_LENGTH = 120;
+const MAX_FEATURE_BADGE_LENGTH = 30;
+const FEATURE_KEYS = ["label", "highlight", "badge"];
+
+// Machine-readable limits of a plan; null means unlimited
+export type PlanEntitlements = {
+  maxProjects: number | null;
+  maxTrackedKeywords: number | null;
+  monthlySeoLookups: number | null;
+  maxWorkspaceMembers: number | null;
+  // Modules (as in RBAC and API key scopes) the plan unlocks, null for all of them
+  allowedModules: string[] | null;
+  apiAccess: boolean;
+  // Credits granted every billing period
+  monthlyCredits: number;
+  // Unused allowance carried into the next period, null for no cap
+  creditRolloverCap: number | null;
+};
+
+export type PlanLimit = Exclude<
+  keyof PlanEntitlements,
+  "allowedModules" | "apiAccess" | "monthlyCredits" | "creditRolloverCap"
+>;
+
+const PLAN_LIMITS: PlanLimit[] = [
+  "maxProjects",
+  "maxTrackedKeywords",
+  "monthlySeoLookups",
+  "maxWorkspaceMembers",
+];
+
+// Plans created before entitlements existed, and plans created without any
+export const UNLIMITED_ENTITLEMENTS: PlanEntitlements = {
+  maxProjects: null,
+  maxTrackedKeywords: null,
+  monthlySeoLookups: null,
+  maxWorkspaceMembers: null,
+  allowedModules: null,
+  apiAccess: true,
+  monthlyCredits: 0,
+  creditRolloverCap: 0,
+};
+
+// Users without a subscription
+export const FREE_ENTITLEMENTS: PlanEntitlements = {
+  maxProjects: 1,
+  maxTrackedKeywords: 10,
+  monthlySeoLookups: 20,
+  maxWorkspaceMembers: 3,
+  allowedModules: null,
+  apiAccess: false,
+  monthlyCredits: 0,
+  creditRolloverCap: 0,
+};
+
+// Decimal(10, 2)
+const PRICE_PATTERN = /^\d{1,8}(\.\d{1,2})?$/;
+
+/**
+ * Validate the `features` of a plan - a non-empty list of { label, highlight?, badge? }
+ * as rendered by the pricing page. Returns the normalized list or an error message.
+ */
+export function parsePlanFeatures(
+  features: unknown
+): { features: PlanFeature[]; error?: never } | { features?: never; error: string } {
+  if (!Array.isArray(features) || features.length === 0) {
+    return { error: "features must be a non-empty array" };
+  }
+  if (features.length > MAX_PLAN_FEATURES) {
+    return { error: `A plan can have at most ${MAX_PLAN_FEATURES} features` };
+  }
+
+  const parsed: PlanFeature[] = [];
+  for (const [index, feature] of features.entries()) {
+    if (!feature || typeof feature !== "object" || Array.isArray(feature)) {
+      return { error: `features[${index}] must be an object` };
+    }
+
+    const unknownKeys = Object.keys(feature).filter((key) => !FEATURE_KEYS.includes(key));
+    if (unknownKeys.length > 0) {
+      return { error: `features[${index}] has unknown keys: ${unknownKeys.join(", ")}` };
+    }
+
+    const { label, highlight, badge } = feature as Record<string, unknown>;
+    if (
+      typeof label !== "string" ||
+      !label.trim() ||
+      label.trim().length > MAX_FEATURE_LABEL_LENGTH
+    ) {
+      return {
+        error: `features[${index}].label must be between 1 and ${MAX_FEATURE_LABEL_LENGTH} characters`,
+      };
+    }
+    if (highlight !== undefined && typeof highlight !== "boolean") {
+      return { error: `features[${index}].highlight must be a boolean` };
+    }
+    if (
+      badge !== undefined &&
+      (typeof badge !== "string" || !badge.trim() || badge.length > MAX_FEATURE_BADGE_LENGTH)
+    ) {
+      return {
+        error: `features[${index}].badge must be between 1 and ${MAX_FEATURE_BADGE_LENGTH} characters`,
+      };
+    }
+
+    parsed.push({
+      label: label.trim(),
+      ...(highlight !== undefined ? { highlight } : {}),
+      ...(badge !== undefined ? { badge: badge.trim() } : {}),
+    });
+  }
+
+  return { features: parsed };
+}
+
+/**
+ * Validate the `entitlements` of a plan. Keys left out keep their value in `base`
+ * (unlimited for a new plan). Returns the complete entitlements or an error message.
+ */
+export function parsePlanEntitlements(
+  entitlements: unknown,
+  base: PlanEntitlements = UNLIMITED_ENTITLEMENTS
+): { entitlements: PlanEntitlements; error?: never } | { entitlements?: never; error: string } {
+  if (!entitlements || typeof entitlements !== "object" || Array.isArray(entitlements)) {
+    return { error: "entitlements must be an object" };
+  }
+
+  const input = entitlements as Record<string, unknown>;
+  const unknownKeys = Object.keys(input).filter((key) => !(key in UNLIMITED_ENTITLEMENTS));
+  if (unknownKeys.length > 0) {
+    return { error: `entitlements has unknown keys: ${unknownKeys.join(", ")}` };
+  }
+
+  const parsed: PlanEntitlements = { ...base };
+  for (const limit of PLAN_LIMITS) {
+    const value = input[limit];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && (!Number.isInteger(value) || Number(value) < 0)) {
+      return { error: `entitlements.${limit} must be a non-negative integer or null` };
+    }
+    parsed[limit] = value as number | null;
+  }
+
+  const { allowedModules, apiAccess, monthlyCredits, creditRolloverCap } = input;
+  if (allowedModules !== undefined) {
+    if (
+      allowedModules !== null &&
+      (!Array.isArray(allowedModules) ||
+        allowedModules.some((module) => typeof module !== "string" || !module.trim()))
+    ) {
+      return { error: "entitlements.allowedModules must be a list of module names or null" };
+    }
+    parsed.allowedModules = allowedModules && [
+      ...new Set(allowedModules.map((module: string) => module.trim())),
+    ];
+  }
+  if (apiAccess !== undefined) {
+    if (typeof apiAccess !== "boolean") {
+      return { error: "entitlements.apiAccess must be a boolean" };
+    }
+    parsed.apiAccess = apiAccess;
+  }
+  if (monthlyCredits !== undefined) {
+    if (!Number.isInteger(monthlyCredits) || Number(monthlyCredits) < 0) {
+      return { error: "entitlements.monthlyCredits must be a non-negative integer" };
+    }
+    parsed.monthlyCredits = monthlyCredits as number;
+  }
+  if (creditRolloverCap !== undefined) {
+    if (
+      creditRolloverCap !== null &&
+      (!Number.isInteger(creditRolloverCap) || Number(creditRolloverCap) < 0)
+    ) {
+      return { error: "entitlements.creditRolloverCap must be a non-negative integer or null" };
+    }
+    parsed.creditRolloverCap = creditRolloverCap as number | null;
+  }
+
+  return { entitlements: parsed };
+}
+
+// Entitlements as stored on a plan version, completed with the unlimited defaults
+export const toPlanEntitlements = (entitlements: Prisma.JsonValue): PlanEntitlements => ({
+  ...UNLIMITED_ENTITLEMENTS,
+  ...(entitlements && typeof entitlements === "object" && !Array.isArray(entitlements)
+    ? (entitlements as Partial<PlanEntitlements>)
+    : {}),
+});
+
+// Prices are sent as a number or a string with at most two decimals
+export function parsePlanPrice(price: unknown): string | null {
+  const value = typeof price === "number" ? String(price) : price;
+  if (typeof value !== "string" || !PRICE_PATTERN.test(value.trim())) {
+    return null;
+  }
+  return value.trim();
+}
+
+// Fields copied into every PlanVersion
+export const toPlanVersionData = (
+  plan: {
+    id: string;
+    version: number;
+    name: string;
+    description: string | null;
+    price: Prisma.Decimal;
+    currency: PlanCurrency;
+    features: Prisma.JsonValue;
+    entitlements: Prisma.JsonValue;
+  },
+  createdById?: string
+): PlanVersionUncheckedCreateInput => ({
+  planId: plan.id,
+  version: plan.version,
+  name: plan.name,
+  description: plan.description,
+  price: plan.price,
+  currency: plan.currency,
+  features: plan.features as Prisma.InputJsonValue,
+  entitlements: plan.entitlements as Prisma.InputJsonValue,
+  createdById: createdById || null,
+});
@@ -0,0 +1,162 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { Prisma } from "prisma/generated/prisma/client";
+import { PlanCurrency } from "prisma/generated/prisma/enums";
+
+export type PriceSource = "base" | "list" | "fx";
+
+export type ResolvedPrice = {
+  amount: Prisma.Decimal;
+  currency: PlanCurrency;
+  source: PriceSource;
+};
+
+type ExchangeRateRule = {
+  rate: Prisma.Decimal;
+  roundTo: Prisma.Decimal;
+  priceEnding: Prisma.Decimal | null;
+};
+
+// Something with a base price: a plan or one of its versions
+type PricedPlan = {
+  planId: string;
+  price: Prisma.Decimal;
+  currency: PlanCurrency;
+};
+
+// Country part of a locale (en-GB, pt_BR) to its currency
+const REGION_CURRENCIES: Record<string, PlanCurrency> = {
+  US: "USD",
+  GB: "GBP",
+  CA: "CAD",
+  AU: "AUD",
+  NZ: "NZD",
+  CH: "CHF",
+  MX: "MXN",
+  AR: "ARS",
+  CO: "COP",
+  CL: "CLP",
+  BR: "BRL",
+  IN: "INR",
+  JP: "JPY",
+  CN: "CNY",
+  SG: "SGD",
+};
+
+const EURO_REGIONS = "AT BE CY DE EE ES FI FR GR HR IE IT LT LU LV MT NL PT SI SK".split(" ");
+
+// Languages that identify the currency on their own when the locale has no region
+const LANGUAGE_CURRENCIES: Record<string, PlanCurrency> = {
+  de: "EUR",
+  fr: "EUR",
+  it: "EUR",
+  nl: "EUR",
+  ja: "JPY",
+  zh: "CNY",
+};
+
+export const isPlanCurrency = (currency: unknown): currency is PlanCurrency =>
+  typeof currency === "string" && Object.values(PlanCurrency).includes(currency as PlanCurrency);
+
+export function currencyFromLocale(locale?: string | null): PlanCurrency | null {
+  if (!locale) {
+    return null;
+  }
+
+  const [language, region] = locale.split(/[-_]/);
+  const upperRegion = region?.toUpperCase();
+  if (upperRegion && REGION_CURRENCIES[upperRegion]) {
+    return REGION_CURRENCIES[upperRegion];
+  }
+  if (upperRegion && EURO_REGIONS.includes(upperRegion)) {
+    return "EUR";
+  }
+  return LANGUAGE_CURRENCIES[language?.toLowerCase() || ""] || null;
+}
+
+export async function loadExchangeRates() {
+  const rates = await prismaClient?.exchangeRate?.findMany();
+  return new Map<PlanCurrency, ExchangeRateRule>(
+    (rates || []).map((rate) => [rate.currency, rate])
+  );
+}
+
+/**
+ * Round a derived price up to the currency's increment, then apply its price ending
+ */
+export function roundPrice(amount: Prisma.Decimal, rule?: ExchangeRateRule) {
+  const roundTo = rule?.roundTo && rule.roundTo.greaterThan(0) ? rule.roundTo : null;
+  let rounded = roundTo
+    ? amount.dividedBy(roundTo).ceil().times(roundTo)
+    : amount.toDecimalPlaces(2, Prisma.Decimal.ROUND_UP);
+
+  if (rule?.priceEnding && rounded.greaterThanOrEqualTo(1)) {
+    const withEnding = rounded.floor().plus(rule.priceEnding);
+    rounded = withEnding.greaterThan(rounded) ? withEnding.minus(1) : withEnding;
+  }
+
+  return rounded.toDecimalPlaces(2);
+}
+
+// Convert through USD; null when a rate is missing
+export function convertAmount(
+  amount: Prisma.Decimal,
+  from: PlanCurrency,
+  to: PlanCurrency,
+  rates: Map<PlanCurrency, ExchangeRateRule>
+) {
+  if (from === to) {
+    return amount;
+  }
+
+  const fromRate = from === "USD" ? new Prisma.Decimal(1) : rates.get(from)?.rate;
+  const toRate = to === "USD" ? new Prisma.Decimal(1) : rates.get(to)?.rate;
+  if (!fromRate || !toRate || fromRate.isZero()) {
+    return null;
+  }
+
+  return roundPrice(amount.dividedBy(fromRate).times(toRate), rates.get(to));
+}
+
+/**
+ * Price of a plan in a currency: its own price, an admin list price or an FX-derived price.
+ * Returns null when the plan can't be sold in that currency.
+ */
+export function resolvePrice(
+  plan: PricedPlan,
+  currency: PlanCurrency,
+  listPrices: Array<{ planId: string; currency: PlanCurrency; amount: Prisma.Decimal }>,
+  rates: Map<PlanCurrency, ExchangeRateRule>
+): ResolvedPrice | null {
+  if (plan.currency === currency) {
+    return { amount: plan.price, currency, source: "base" };
+  }
+
+  const listPrice = listPrices.find(
+    (price) => price.planId === plan.planId && price.currency === currency
+  );
+  if (listPrice) {
+    return { amount: listPrice.amount, currency, source: "list" };
+  }
+
+  // Free stays free in every currency
+  if (plan.price.isZero()) {
+    return { amount: plan.price, currency, source: "fx" };
+  }
+
+  const converted = convertAmount(plan.price, plan.currency, currency, rates);
+  return converted ? { amount: converted, currency, source: "fx" } : null;
+}
+
+export async function resolvePlanPrice(plan: PricedPlan, currency: PlanCurrency) {
+  if (plan.currency === currency) {
+    return resolvePrice(plan, currency, [], new Map());
+  }
+
+  const listPrices = await prismaClient?.planPrice?.findMany({
+    where: {
+      planId: plan.planId,
+      currency,
+    },
+  });
+  return resolvePrice(plan, currency, listPrices || [], await loadExchangeRates());
+}
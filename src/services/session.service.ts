@@ -0,0 +1,233 @@
+import { randomUUID } from "crypto";
+import { type CookieOptions, type Request, type Response } from "express";
+import { prismaClient } from "@/lib/prismaClient";
+import { extractIpAddress, extractUserAgent, parseTimeString } from "@/utils/helperFunctions";
+import { createToken } from "@/utils/tokenUtils";
+import { logger } from "@/utils/logger";
+import { recordAuditEvent } from "@/services/audit.service";
+import { forgetUserSessions } from "@/services/permission.service";
+import type { CheckUserType } from "@/controllers/auth.controller";
+
+const authCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: "strict",
+  path: "/",
+};
+
+export const getTokenExpiry = () => ({
+  accessExpiryMs: parseTimeString(process.env.ACCESS_TOKEN_EXPIRY || "1h"),
+  refreshExpiryMs: parseTimeString(process.env.REFRESH_TOKEN_EXPIRY || "30d"),
+});
+
+export async function setAuthCookies(
+  res: Response,
+  params: { accessToken: string; refreshToken: string }
+) {
+  const { accessExpiryMs, refreshExpiryMs } = getTokenExpiry();
+
+  res.cookie("access_token", params.accessToken, {
+    ...authCookieOptions,
+    maxAge: accessExpiryMs,
+  });
+  res.cookie("refresh_token", params.refreshToken, {
+    ...authCookieOptions,
+    maxAge: refreshExpiryMs,
+  });
+}
+
+// Clients that cannot use cookies (mobile apps, server-to-server) opt in with `X-Auth-Mode: bearer`
+// and receive the tokens in the response body instead
+export const isBearerAuthMode = (req: Request) =>
+  req.get("x-auth-mode")?.toLowerCase() === "bearer";
+
+export function clearAuthCookies(res: Response) {
+  res.clearCookie("access_token", authCookieOptions);
+  res.clearCookie("refresh_token", authCookieOptions);
+  // Permissions are no longer stored in a cookie, clear the one set by older logins
+  res.clearCookie("user_data", authCookieOptions);
+}
+
+// Create a new login session for the user and set the auth cookies on the response (cookie mode only)
+export async function createUserSession(req: Request, res: Response, user: CheckUserType) {
+  const refresh_token = await createToken(
+    { userId: user?.id, email: user?.email, nonce: randomUUID() },
+    "refresh_token"
+  );
+  if (!refresh_token?.success || !refresh_token?.data) {
+    return { success: false, error: "Error while creating tokens" };
+  }
+
+  const { refreshExpiryMs } = getTokenExpiry();
+
+  const session = await prismaClient?.session?.create({
+    data: {
+      userId: user?.id,
+      token: refresh_token.data,
+      expiresAt: new Date(Date.now() + refreshExpiryMs),
+      ipAddress: extractIpAddress(req),
+      userAgent: extractUserAgent(req),
+    },
+  });
+
+  // The session id is embedded in the access token so requests can be tied to their session
+  const access_token = await createToken(
+    { userId: user?.id, email: user?.email, sessionId: session?.id },
+    "access_token"
+  );
+  if (!access_token?.success || !access_token?.data) {
+    return { success: false, error: "Error while creating tokens" };
+  }
+
+  if (!isBearerAuthMode(req)) {
+    await setAuthCookies(res, {
+      accessToken: access_token.data,
+      refreshToken: refresh_token.data,
+    });
+  }
+
+  return {
+    success: true,
+    data: {
+      sessionId: session?.id,
+      accessToken: access_token.data,
+      refreshToken: refresh_token.data,
+    },
+  };
+}
+
+// Rotate the refresh token of a session, keeping the old token as a superseded member of the family
+export async function rotateSessionToken(
+  req: Request,
+  params: { sessionId: string; currentToken: string; newToken: string }
+) {
+  const { refreshExpiryMs } = getTokenExpiry();
+
+  return prismaClient?.$transaction(async (tx) => {
+    // Conditional update so two concurrent renewals cannot both rotate the same token
+    const updated = await tx.session.updateMany({
+      where: {
+        id: params.sessionId,
+        token: params.currentToken,
+      },
+      data: {
+        token: params.newToken,
+        expiresAt: new Date(Date.now() + refreshExpiryMs),
+        ipAddress: extractIpAddress(req),
+        userAgent: extractUserAgent(req),
+        lastUsedAt: new Date(),
+      },
+    });
+    if (!updated.count) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: {
+        sessionId: params.sessionId,
+        token: params.currentToken,
+      },
+    });
+    return true;
+  });
+}
+
+// Check whether a refresh token that no longer matches a session was already rotated.
+// Replaying a superseded token revokes the whole family unless it happens within a short
+// grace window (e.g. two tabs renewing at the same time).
+export async function handleRefreshTokenReuse(req: Request, refreshToken: string) {
+  const superseded = await prismaClient?.refreshToken?.findFirst({
+    where: {
+      token: refreshToken,
+    },
+    include: {
+      session: {
+        select: {
+          id: true,
+          userId: true,
+        },
+      },
+    },
+  });
+  if (!superseded) {
+    return "unknown";
+  }
+
+  const graceMs = parseTimeString(process.env.REFRESH_TOKEN_REUSE_GRACE || "10s");
+  if (Date.now() - superseded.supersededAt.getTime() <= graceMs) {
+    return "grace";
+  }
+
+  await prismaClient?.session?.deleteMany({
+    where: {
+      id: superseded.sessionId,
+    },
+  });
+  if (superseded.session?.userId) {
+    forgetUserSessions(superseded.session.userId);
+  }
+
+  logger.warn("Security Event: refresh token reuse detected", {
+    userId: superseded.session?.userId,
+    sessionId: superseded.sessionId,
+    supersededAt: superseded.supersededAt,
+    ip: extractIpAddress(req),
+    userAgent: extractUserAgent(req),
+  });
+  await recordAuditEvent(req, {
+    action: "auth.refresh_token_reuse",
+    actorId: superseded.session?.userId || null,
+    targetType: "session",
+    targetId: superseded.sessionId,
+  });
+
+  return "revoked";
+}
+
+export const getImpersonationDuration = () => process.env.IMPERSONATION_DURATION || "30m";
+
+// Create a time-boxed session for an admin acting as another user. No refresh token is
+// issued, so the session can't outlive its access token; the token is returned to the
+// caller instead of replacing the admin's own cookies.
+export async function createImpersonationSession(
+  req: Request,
+  params: { adminId: string; user: { id: string; email: string | null } }
+) {
+  const duration = getImpersonationDuration();
+  const expiresAt = new Date(Date.now() + parseTimeString(duration));
+
+  const session = await prismaClient?.session?.create({
+    data: {
+      userId: params.user.id,
+      // Opaque placeholder, impersonation sessions can't be renewed
+      token: `impersonation:${randomUUID()}`,
+      expiresAt,
+      ipAddress: extractIpAddress(req),
+      userAgent: extractUserAgent(req),
+      impersonatorId: params.adminId,
+    },
+  });
+
+  const access_token = await createToken(
+    {
+      userId: params.user.id,
+      email: params.user.email,
+      sessionId: session?.id,
+      impersonatorId: params.adminId,
+    },
+    "access_token",
+    duration
+  );
+  if (!access_token?.success || !access_token?.data || !session) {
+    return { success: false, error: "Error while creating tokens" };
+  }
+
+  return {
+    success: true,
+    data: {
+      sessionId: session.id,
+      accessToken: access_token.data,
+      expiresAt,
+    },
+  };
+}
@@ -0,0 +1,306 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { parseTimeString } from "@/utils/helperFunctions";
+import { logger } from "@/utils/logger";
+import { resolvePlanPrice } from "@/services/pricing.service";
+import { Prisma } from "prisma/generated/prisma/client";
+import type { PlanCurrency, SubscriptionStatus } from "prisma/generated/prisma/enums";
+import type { SubscriptionSelect } from "prisma/generated/prisma/models";
+
+// Subscriptions that still grant access to the plan
+export const LIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ["TRIALING", "ACTIVE", "PAST_DUE"];
+
+export const subscriptionSelect = {
+  id: true,
+  status: true,
+  providerSubscriptionId: true,
+  price: true,
+  currency: true,
+  currentPeriodStart: true,
+  currentPeriodEnd: true,
+  trialEndsAt: true,
+  prorationBalance: true,
+  cancelAtPeriodEnd: true,
+  canceledAt: true,
+  createdAt: true,
+  planVersion: {
+    select: {
+      id: true,
+      planId: true,
+      version: true,
+      name: true,
+      price: true,
+      currency: true,
+      features: true,
+      entitlements: true,
+    },
+  },
+  pendingPlanVersion: {
+    select: {
+      id: true,
+      planId: true,
+      version: true,
+      name: true,
+      price: true,
+      currency: true,
+      entitlements: true,
+    },
+  },
+} satisfies SubscriptionSelect;
+
+// A trial of 0 disables trials
+export const getTrialMs = () => parseTimeString(process.env.SUBSCRIPTION_TRIAL_PERIOD || "14d");
+
+export const getPastDueGraceMs = () =>
+  parseTimeString(process.env.SUBSCRIPTION_PAST_DUE_GRACE || "7d");
+
+// Billing periods are calendar months; the 31st becomes the last day of shorter months
+export function addBillingPeriod(date: Date) {
+  const next = new Date(date);
+  const day = next.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(day, lastDay));
+  return next;
+}
+
+/**
+ * Price difference for the rest of the current period when switching plans.
+ * Positive when the user owes money (upgrade), negative when they get a credit.
+ */
+export function calculateProration(params: {
+  fromPrice: Prisma.Decimal;
+  toPrice: Prisma.Decimal;
+  periodStart: Date;
+  periodEnd: Date;
+  now?: Date;
+}) {
+  const now = params.now || new Date();
+  const total = params.periodEnd.getTime() - params.periodStart.getTime();
+  const remaining = Math.min(Math.max(params.periodEnd.getTime() - now.getTime(), 0), total);
+  if (total <= 0 || remaining === 0) {
+    return new Prisma.Decimal(0);
+  }
+
+  return params.toPrice
+    .minus(params.fromPrice)
+    .times(remaining)
+    .dividedBy(total)
+    .toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+// Latest version of an active plan, i.e. the terms a new subscriber gets
+export async function findPurchasablePlanVersion(planId: string) {
+  const plan = await prismaClient?.plan?.findFirst({
+    where: {
+      id: planId,
+      isActive: true,
+    },
+    select: {
+      id: true,
+      version: true,
+    },
+  });
+  if (!plan) {
+    return null;
+  }
+
+  return prismaClient?.planVersion?.findFirst({
+    where: {
+      planId: plan.id,
+      version: plan.version,
+    },
+  });
+}
+
+export async function getCurrentSubscription(userId: string) {
+  return prismaClient?.subscription?.findFirst({
+    where: {
+      userId,
+      status: { in: LIVE_SUBSCRIPTION_STATUSES },
+    },
+    select: subscriptionSelect,
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+}
+
+// What the subscription is billed per period
+export const getBillingPrice = (subscription: {
+  price: Prisma.Decimal | null;
+  currency: PlanCurrency | null;
+  planVersion: { price: Prisma.Decimal; currency: PlanCurrency };
+}) => ({
+  amount: subscription.price ?? subscription.planVersion.price,
+  currency: subscription.currency ?? subscription.planVersion.currency,
+});
+
+type DueSubscription = {
+  id: string;
+  status: SubscriptionStatus;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  currency: PlanCurrency | null;
+  planVersion: { currency: PlanCurrency };
+  pendingPlanVersion: {
+    id: string;
+    planId: string;
+    price: Prisma.Decimal;
+    currency: PlanCurrency;
+  } | null;
+};
+
+/**
+ * Start the next billing period, switching to a scheduled downgrade if there is one.
+ * Guarded on the period end so concurrent runs can't renew twice.
+ */
+export async function renewSubscription(subscription: DueSubscription) {
+  const periodStart = subscription.currentPeriodEnd;
+  const pending = subscription.pendingPlanVersion;
+  // The downgraded plan is billed in the currency the user already pays in when possible
+  const billingCurrency = subscription.currency ?? subscription.planVersion.currency;
+  const pendingPrice = pending ? await resolvePlanPrice(pending, billingCurrency) : null;
+  // Fall back to the plan's own price when it can't be billed in that currency
+  const lockedPrice = pendingPrice && pendingPrice.source !== "base" ? pendingPrice : null;
+  const renewed = await prismaClient?.subscription?.updateMany({
+    where: {
+      id: subscription.id,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+    },
+    data: {
+      status: "ACTIVE",
+      currentPeriodStart: periodStart,
+      currentPeriodEnd: addBillingPeriod(periodStart),
+      ...(pending
+        ? {
+            planId: pending.planId,
+            planVersionId: pending.id,
+            pendingPlanVersionId: null,
+            price: lockedPrice?.amount ?? null,
+            currency: lockedPrice?.currency ?? null,
+          }
+        : {}),
+    },
+  });
+  return Boolean(renewed?.count);
+}
+
+async function endSubscription(
+  subscription: DueSubscription,
+  status: "CANCELED" | "EXPIRED",
+  endedAt: Date
+) {
+  const ended = await prismaClient?.subscription?.updateMany({
+    where: {
+      id: subscription.id,
+      status: subscription.status,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+    },
+    data: {
+      status,
+      endedAt,
+      pendingPlanVersionId: null,
+    },
+  });
+  return Boolean(ended?.count);
+}
+
+async function markPastDue(subscription: DueSubscription) {
+  const updated = await prismaClient?.subscription?.updateMany({
+    where: {
+      id: subscription.id,
+      status: subscription.status,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+    },
+    data: {
+      status: "PAST_DUE",
+    },
+  });
+  return Boolean(updated?.count);
+}
+
+/**
+ * Move subscriptions whose period is over to their next state: canceled ones end and past
+ * due ones expire after the grace period. Free plans renew here; paid subscriptions are
+ * renewed by the provider's `invoice.paid` webhook and fall past due until it arrives,
+ * trials without a payment expire.
+ */
+export async function advanceSubscriptions() {
+  const now = new Date();
+  const dueSubscriptions = await prismaClient?.subscription?.findMany({
+    where: {
+      OR: [
+        {
+          status: { in: LIVE_SUBSCRIPTION_STATUSES },
+          cancelAtPeriodEnd: true,
+          currentPeriodEnd: { lte: now },
+        },
+        {
+          status: { in: ["TRIALING", "ACTIVE"] },
+          currentPeriodEnd: { lte: now },
+        },
+        // Past due subscriptions get a grace period to pay before they expire
+        {
+          status: "PAST_DUE",
+          currentPeriodEnd: { lte: new Date(now.getTime() - getPastDueGraceMs()) },
+        },
+      ],
+    },
+    select: {
+      id: true,
+      status: true,
+      currentPeriodEnd: true,
+      cancelAtPeriodEnd: true,
+      providerSubscriptionId: true,
+      currency: true,
+      planVersion: {
+        select: {
+          price: true,
+          currency: true,
+        },
+      },
+      pendingPlanVersion: {
+        select: {
+          id: true,
+          planId: true,
+          price: true,
+          currency: true,
+        },
+      },
+    },
+    take: 100,
+  });
+
+  const result = { renewed: 0, canceled: 0, expired: 0, pastDue: 0 };
+  for (const subscription of dueSubscriptions || []) {
+    try {
+      if (subscription.cancelAtPeriodEnd) {
+        if (await endSubscription(subscription, "CANCELED", subscription.currentPeriodEnd)) {
+          result.canceled++;
+        }
+      } else if (subscription.status === "PAST_DUE") {
+        if (await endSubscription(subscription, "EXPIRED", now)) {
+          result.expired++;
+        }
+      } else if (subscription.planVersion.price.isZero()) {
+        if (await renewSubscription(subscription)) {
+          result.renewed++;
+        }
+      } else if (subscription.providerSubscriptionId) {
+        if (await markPastDue(subscription)) {
+          result.pastDue++;
+        }
+      } else if (await endSubscription(subscription, "EXPIRED", now)) {
+        result.expired++;
+      }
+    } catch (error) {
+      logger.error("Subscription update failed", {
+        subscriptionId: subscription.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return result;
+}
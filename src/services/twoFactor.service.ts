@@ -0,0 +1,95 @@
+import { prismaClient } from "@/lib/prismaClient";
+import { decryptData } from "@/utils/encryptDecryptPayload";
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from "@/utils/totpUtils";
+
+export async function isTwoFactorEnabled(userId: string) {
+  const twoFactor = await prismaClient?.twoFactor?.findFirst({
+    where: {
+      userId,
+      enabledAt: { not: null },
+    },
+    select: {
+      id: true,
+    },
+  });
+  return !!twoFactor;
+}
+
+// Verify a TOTP code against the stored secret, rejecting a code that was already used
+export async function verifyTotpCode(userId: string, code: string) {
+  const twoFactor = await prismaClient?.twoFactor?.findFirst({
+    where: {
+      userId,
+    },
+  });
+  if (!twoFactor) {
+    return false;
+  }
+
+  const secret = await decryptData<string>(twoFactor.secret);
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  const updated = await prismaClient?.twoFactor?.updateMany({
+    where: {
+      id: twoFactor.id,
+      OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+    },
+    data: {
+      lastUsedStep: step,
+    },
+  });
+  return !!updated?.count;
+}
+
+// Consume a recovery code; each code can only be used once
+export async function consumeRecoveryCode(userId: string, recoveryCode: string) {
+  const updated = await prismaClient?.recoveryCode?.updateMany({
+    where: {
+      userId,
+      codeHash: hashRecoveryCode(recoveryCode),
+      usedAt: null,
+    },
+    data: {
+      usedAt: new Date(),
+    },
+  });
+  return !!updated?.count;
+}
+
+// Verify the second factor given either a TOTP code or a recovery code
+export async function verifySecondFactor(
+  userId: string,
+  params: { code?: string; recoveryCode?: string }
+) {
+  if (params.code) {
+    return verifyTotpCode(userId, params.code);
+  }
+  if (params.recoveryCode) {
+    return consumeRecoveryCode(userId, params.recoveryCode);
+  }
+  return false;
+}
+
+// Replace every recovery code of the user, returning the new plain codes (shown once)
+export async function replaceRecoveryCodes(userId: string) {
+  const codes = generateRecoveryCodes();
+
+  await prismaClient?.$transaction([
+    prismaClient?.recoveryCode?.deleteMany({
+      where: {
+        userId,
+      },
+    }),
+    prismaClient?.recoveryCode?.createMany({
+      data: codes.map((code) => ({
+        userId,
+        codeHash: hashRecoveryCode(code),
+      })),
+    }),
+  ]);
+
+  return codes;
+}
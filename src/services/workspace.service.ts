@@ -0,0 +1,77 @@
+import { createHash, randomBytes } from "crypto";
+import { prismaClient } from "@/lib/prismaClient";
+import { parseTimeString } from "@/utils/helperFunctions";
+import type { WorkspaceRole } from "prisma/generated/prisma/enums";
+
+const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = {
+  MEMBER: 1,
+  ADMIN: 2,
+  OWNER: 3,
+};
+
+export const hasWorkspaceRole = (role: WorkspaceRole, minRole: WorkspaceRole) =>
+  WORKSPACE_ROLE_RANK[role] >= WORKSPACE_ROLE_RANK[minRole];
+
+// A member can only manage members ranked strictly below them
+export const outranks = (role: WorkspaceRole, otherRole: WorkspaceRole) =>
+  WORKSPACE_ROLE_RANK[role] > WORKSPACE_ROLE_RANK[otherRole];
+
+export async function getWorkspaceMembership(workspaceId: string, userId: string) {
+  return prismaClient?.workspaceMember?.findFirst({
+    where: {
+      workspaceId,
+      userId,
+    },
+  });
+}
+
+// Workspaces the user owns, which must never be left without an owner
+export async function getOwnedWorkspaces(userId: string) {
+  const memberships = await prismaClient?.workspaceMember?.findMany({
+    where: {
+      userId,
+      role: "OWNER",
+    },
+    select: {
+      workspace: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+  return (memberships || []).map((membership) => membership.workspace);
+}
+
+export const getInvitationExpiryMs = () =>
+  parseTimeString(process.env.WORKSPACE_INVITATION_EXPIRY || "7d");
+
+// Invitation tokens are only stored hashed, the plain token is sent by email
+export const generateInvitationToken = () => randomBytes(32).toString("base64url");
+
+export const hashInvitationToken = (token: string) =>
+  createHash("sha256")
+    .update(String(token || ""))
+    .digest("hex");
+
+// Find an invitation that can still be accepted or declined
+export async function findPendingInvitation(token: string) {
+  return prismaClient?.workspaceInvitation?.findFirst({
+    where: {
+      tokenHash: hashInvitationToken(token),
+      acceptedAt: null,
+      declinedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    include: {
+      workspace: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+}
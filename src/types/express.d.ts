@@ -1,10 +1,31 @@
 import "express";
+import type { UsageReport } from "@/services/credit.service";
+import type { PlanEntitlements } from "@/services/plan.service";
 
 declare global {
   namespace Express {
     interface Request {
       userId?: string;
       role?: string;
+      sessionId?: string;
+      refreshToken?: string;
+      rawBody?: Buffer;
+      impersonatorId?: string;
+      workspace?: {
+        id: string;
+        role: "OWNER" | "ADMIN" | "MEMBER";
+      };
+      // Cached by the entitlement checks
+      entitlements?: PlanEntitlements;
+      apiKey?: {
+        id: string;
+        scopes: string[];
+      };
+    }
+
+    interface Locals {
+      // Reported by a metered handler, priced by `meterCredits`
+      usage?: UsageReport;
     }
   }
 }
@@ -0,0 +1,14 @@
+import { createHash, randomBytes } from "crypto";
+
+const API_KEY_PREFIX = "hrseo";
+
+// Keys look like "hrseo_<8 char id>_<secret>"; the part before the secret is the visible prefix
+export function generateApiKey() {
+  const id = randomBytes(6).toString("base64url").slice(0, 8);
+  const secret = randomBytes(24).toString("base64url");
+  const prefix = `${API_KEY_PREFIX}_${id}`;
+
+  return { key: `${prefix}_${secret}`, prefix };
+}
+
+export const hashApiKey = (key: string) => createHash("sha256").update(key).digest("hex");
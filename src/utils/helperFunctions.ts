@@ -1,14 +1,44 @@
 import { type Request } from "express";
 
+// X-Forwarded-For is only honoured for the proxies allowed by the "trust proxy" setting,
+// so a client can't pick the address its throttling and audit entries are keyed on
 export const extractIpAddress = (req: Request): string | undefined => {
-  const ip = req.headers["x-forwarded-for"] || req.socket.remoteAddress;
-  return Array.isArray(ip) ? ip[0] : ip;
+  return req.ip || req.socket?.remoteAddress;
+};
+
+// TRUST_PROXY: a hop count, true / false, or addresses and subnets (see Express "trust proxy")
+export const parseTrustProxy = (value?: string): boolean | number | string => {
+  const setting = value?.trim();
+  if (!setting || setting === "false") {
+    return false;
+  }
+  if (setting === "true") {
+    return true;
+  }
+  return /^\d+$/.test(setting) ? parseInt(setting, 10) : setting;
 };
 
 export const extractUserAgent = (req: Request): string | undefined => {
   return req.headers["user-agent"] ?? undefined;
 };
 
+// Access tokens come from an `Authorization: Bearer` header or the httpOnly cookie.
+// An explicit header wins so an admin browser can act as another user (impersonation).
+export const extractAccessToken = (req: Request): string | undefined => {
+  const [scheme, token] = (req.headers.authorization || "").split(" ");
+  if (scheme?.toLowerCase() === "bearer" && token) {
+    return token;
+  }
+  return req.cookies?.access_token || undefined;
+};
+
+// Refresh tokens come from the httpOnly cookie, an `X-Refresh-Token` header or the request body
+export const extractRefreshToken = (req: Request): string | undefined => {
+  return (
+    req.cookies?.refresh_token || req.get("x-refresh-token") || req.body?.refresh_token || undefined
+  );
+};
+
 export function parseTimeString(str: string): number {
   const num = parseInt(str, 10);
   const unit = str.replace(/[0-9]/g, "").toLowerCase();
@@ -26,3 +56,22 @@ export function parseTimeString(str: string): number {
       throw new Error("Invalid time format: " + str);
   }
 }
+
+// Cursor pagination from `?cursor=&limit=`; fetch `limit + 1` rows to know if there is a next page
+export const parseCursorPagination = (req: Request, defaultLimit = 20, maxLimit = 100) => {
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit), 10) || defaultLimit, 1),
+    maxLimit
+  );
+  const cursor =
+    typeof req.query.cursor === "string" && req.query.cursor ? req.query.cursor : undefined;
+  return { limit, cursor };
+};
+
+export const toCursorPage = <T extends { id: string }>(rows: T[], limit: number) => {
+  const items = rows.slice(0, limit);
+  return {
+    items,
+    nextCursor: rows.length > limit ? (items[items.length - 1]?.id ?? null) : null,
+  };
+};
@@ -0,0 +1,125 @@
+import type { MailMessage } from "@/services/mail.service";
+
+const appName = "HRSEO";
+
+export const buildClientUrl = (path: string) => {
+  const baseUrl = (process.env.CLIENT_URL || "http://localhost:3000").replace(/\/+$/, "");
+  return `${baseUrl}${path}`;
+};
+
+export function passwordResetMail(params: {
+  to: string;
+  name?: string | null;
+  url: string;
+  expiresAt: Date;
+}): MailMessage {
+  const greeting = params.name ? `Hi ${params.name},` : "Hi,";
+
+  return {
+    to: params.to,
+    subject: `Reset your ${appName} password`,
+    text: [
+      greeting,
+      "",
+      `We received a request to reset the password of your ${appName} account.`,
+      `Open the link below to choose a new password (valid until ${params.expiresAt.toUTCString()}):`,
+      "",
+      params.url,
+      "",
+      "If you did not request a password reset you can safely ignore this email.",
+    ].join("\n"),
+  };
+}
+
+export function emailVerificationMail(params: {
+  to: string;
+  name?: string | null;
+  url: string;
+  expiresAt: Date;
+}): MailMessage {
+  const greeting = params.name ? `Hi ${params.name},` : "Hi,";
+
+  return {
+    to: params.to,
+    subject: `Verify your ${appName} email address`,
+    text: [
+      greeting,
+      "",
+      `Please confirm that ${params.to} is your email address by opening the link below`,
+      `(valid until ${params.expiresAt.toUTCString()}):`,
+      "",
+      params.url,
+      "",
+      `If you did not create an ${appName} account you can safely ignore this email.`,
+    ].join("\n"),
+  };
+}
+
+export function emailChangeMail(params: {
+  to: string;
+  name?: string | null;
+  url: string;
+  expiresAt: Date;
+}): MailMessage {
+  const greeting = params.name ? `Hi ${params.name},` : "Hi,";
+
+  return {
+    to: params.to,
+    subject: `Confirm your new ${appName} email address`,
+    text: [
+      greeting,
+      "",
+      `Please confirm that ${params.to} should become the email address of your ${appName} account`,
+      `by opening the link below (valid until ${params.expiresAt.toUTCString()}):`,
+      "",
+      params.url,
+      "",
+      "If you did not request this change you can safely ignore this email.",
+    ].join("\n"),
+  };
+}
+
+export function emailChangedNoticeMail(params: {
+  to: string;
+  name?: string | null;
+  newEmail: string;
+}): MailMessage {
+  const greeting = params.name ? `Hi ${params.name},` : "Hi,";
+
+  return {
+    to: params.to,
+    subject: `Your ${appName} email address was changed`,
+    text: [
+      greeting,
+      "",
+      `The email address of your ${appName} account was changed to ${params.newEmail}.`,
+      "",
+      "If you did not make this change please contact support immediately.",
+    ].join("\n"),
+  };
+}
+
+export function workspaceInvitationMail(params: {
+  to: string;
+  workspaceName: string;
+  inviterName?: string | null;
+  url: string;
+  expiresAt: Date;
+}): MailMessage {
+  const inviter = params.inviterName || "A teammate";
+
+  return {
+    to: params.to,
+    subject: `You have been invited to join ${params.workspaceName} on ${appName}`,
+    text: [
+      "Hi,",
+      "",
+      `${inviter} invited you to join the ${params.workspaceName} workspace on ${appName}.`,
+      `Open the link below to accept or decline (valid until ${params.expiresAt.toUTCString()}):`,
+      "",
+      params.url,
+      "",
+      "If you were not expecting this invitation you can safely ignore this email.",
+    ].join("\n"),
+  };
+}
@@ -18,3 +18,24 @@ export async function verifyPassword(hash: string, password: string): Promise<bo
     return false;
   }
 }
+
+// Minimal password policy shared by every flow that sets a new password
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < 8) {
+    return "Password must be at least 8 characters long";
+  }
+  if (password.length > 128) {
+    return "Password must be at most 128 characters long";
+  }
+  return null;
+}
+
+let dummyHash: Promise<string> | undefined;
+
+// Spend the same time as a real verification when there is no hash to check against,
+// so response times do not reveal whether an account exists
+export async function verifyDummyPassword(password: string): Promise<false> {
+  dummyHash ??= hashPassword("dummy-password-for-timing");
+  await verifyPassword(await dummyHash, password);
+  return false;
+}
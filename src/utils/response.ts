@@ -45,3 +45,18 @@ export function sendSuccessUnencrypted<T>(res: Response, data?: T, message?: str
   };
   return res.status(200).json(response);
 }
+
+/**
+ * Plan limit reached - the limit and current usage go along so the client can offer an upgrade
+ */
+export function sendLimitExceeded(
+  res: Response,
+  message: string,
+  details: Record<string, unknown>
+) {
+  return res.status(403).json({
+    success: false,
+    data: details,
+    message,
+  });
+}
@@ -1,31 +1,47 @@
 import { jwtVerify, SignJWT } from "jose";
+import { parseTimeString } from "./helperFunctions";
 
 interface JWTPayload {
   [claim: string]: string | number | boolean | undefined | null | JWTPayload | JWTPayload[];
 }
 
+export type TokenType =
+  | "access_token"
+  | "refresh_token"
+  | "password_reset"
+  | "email_verification"
+  | "two_factor";
+
+const getTokenSettings = (type: TokenType) => {
+  switch (type) {
+    case "access_token":
+      return { expiry: process.env.ACCESS_TOKEN_EXPIRY, secret: process.env.ACCESS_TOKEN_SECRET };
+    case "refresh_token":
+      return { expiry: process.env.REFRESH_TOKEN_EXPIRY, secret: process.env.REFRESH_TOKEN_SECRET };
+    case "password_reset":
+      return {
+        expiry: process.env.PASSWORD_RESET_TOKEN_EXPIRY,
+        secret: process.env.PASSWORD_RESET_TOKEN_SECRET,
+      };
+    case "email_verification":
+      return {
+        expiry: process.env.EMAIL_VERIFICATION_TOKEN_EXPIRY,
+        secret: process.env.EMAIL_VERIFICATION_TOKEN_SECRET,
+      };
+    case "two_factor":
+      return {
+        expiry: process.env.TWO_FACTOR_TOKEN_EXPIRY || "5m",
+        secret: process.env.TWO_FACTOR_TOKEN_SECRET,
+      };
+  }
+};
+
 // Function to create a signed token
-export async function createToken(
-  payload: JWTPayload,
-  type: "access_token" | "refresh_token" | "password_reset" | "email_verification"
-) {
+// `expiry` overrides the configured lifetime of the token type (e.g. "30m")
+export async function createToken(payload: JWTPayload, type: TokenType, expiry?: string) {
   try {
-    const expiresInSeconds =
-      type === "access_token"
-        ? process.env.ACCESS_TOKEN_EXPIRY
-        : type === "refresh_token"
-          ? process.env.REFRESH_TOKEN_EXPIRY
-          : type === "password_reset"
-            ? process.env.PASSWORD_RESET_TOKEN_EXPIRY
-            : process.env.EMAIL_VERIFICATION_TOKEN_EXPIRY;
-    const secretKey =
-      type === "access_token"
-        ? process.env.ACCESS_TOKEN_SECRET
-        : type === "refresh_token"
-          ? process.env.REFRESH_TOKEN_SECRET
-          : type === "password_reset"
-            ? process.env.PASSWORD_RESET_TOKEN_SECRET
-            : process.env.EMAIL_VERIFICATION_TOKEN_SECRET;
+    const { expiry: defaultExpiry, secret: secretKey } = getTokenSettings(type);
+    const expiresInSeconds = expiry || defaultExpiry;
     if (!expiresInSeconds || !secretKey) {
       return { success: false, error: "Token or secret key not found" };
     }
@@ -36,7 +52,7 @@ export async function createToken(
 
     const response = await new SignJWT(payload)
       .setProtectedHeader({ alg: "HS256" })
-      .setExpirationTime(Math.floor(Date.now() / 1000) + expiresInSeconds)
+      .setExpirationTime(Math.floor((Date.now() + parseTimeString(expiresInSeconds)) / 1000))
       .sign(encodedKey);
 
     return { success: true, data: response };
@@ -54,17 +70,10 @@ interface AccessTokenPayload {
 // Function to verify token
 export async function verifyToken<T extends AccessTokenPayload>(
   token: string,
-  type: "access_token" | "refresh_token" | "password_reset" | "email_verification"
+  type: TokenType
 ): Promise<{ success: boolean; data?: T; error?: string }> {
   try {
-    const secretKey =
-      type === "access_token"
-        ? process.env.ACCESS_TOKEN_SECRET
-        : type === "refresh_token"
-          ? process.env.REFRESH_TOKEN_SECRET
-          : type === "password_reset"
-            ? process.env.PASSWORD_RESET_TOKEN_SECRET
-            : process.env.EMAIL_VERIFICATION_TOKEN_SECRET;
+    const { secret: secretKey } = getTokenSettings(type);
     if (!secretKey) {
       return { success: false, error: "Secret key not found" };
     }
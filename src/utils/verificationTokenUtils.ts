@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+import { prismaClient } from "@/lib/prismaClient";
+import { parseTimeString } from "./helperFunctions";
+import { createToken, verifyToken } from "./tokenUtils";
+import type { VerificationType } from "prisma/generated/prisma/enums";
+
+const tokenConfig = {
+  PASSWORD_RESET: {
+    tokenType: "password_reset",
+    expiry: () => process.env.PASSWORD_RESET_TOKEN_EXPIRY || "1h",
+  },
+  EMAIL_VERIFY: {
+    tokenType: "email_verification",
+    expiry: () => process.env.EMAIL_VERIFICATION_TOKEN_EXPIRY || "24h",
+  },
+  EMAIL_CHANGE: {
+    tokenType: "email_verification",
+    expiry: () => process.env.EMAIL_VERIFICATION_TOKEN_EXPIRY || "24h",
+  },
+} as const;
+
+interface VerificationTokenPayload {
+  userId: string;
+  email: string;
+  [key: string]: any;
+}
+
+// Issue a single-use verification token, replacing any previous token of the same type
+export async function issueVerificationToken(params: {
+  userId: string;
+  email: string;
+  type: VerificationType;
+}) {
+  const config = tokenConfig[params.type];
+
+  const token = await createToken(
+    { userId: params.userId, email: params.email, nonce: randomUUID() },
+    config.tokenType
+  );
+  if (!token?.success || !token?.data) {
+    return { success: false, error: token?.error || "Error while creating token" };
+  }
+
+  const expiresAt = new Date(Date.now() + parseTimeString(config.expiry()));
+
+  await prismaClient?.$transaction([
+    prismaClient?.verificationToken?.deleteMany({
+      where: {
+        identifier: params.userId,
+        type: params.type,
+      },
+    }),
+    prismaClient?.verificationToken?.create({
+      data: {
+        identifier: params.userId,
+        token: token.data,
+        type: params.type,
+        expiresAt,
+      },
+    }),
+  ]);
+
+  return { success: true, data: { token: token.data, expiresAt } };
+}
+
+// Verify and consume a verification token; a token can only be consumed once
+export async function consumeVerificationToken(token: string, type: VerificationType) {
+  const verification = await verifyToken<VerificationTokenPayload>(
+    token,
+    tokenConfig[type].tokenType
+  );
+  if (!verification?.success || !verification?.data) {
+    return { success: false, error: "Invalid or expired token" };
+  }
+
+  const verificationToken = await prismaClient?.verificationToken?.findFirst({
+    where: {
+      token,
+      type,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  if (!verificationToken || verificationToken.identifier !== verification.data.userId) {
+    return { success: false, error: "Invalid or expired token" };
+  }
+
+  // deleteMany + count guards against the same token being consumed concurrently
+  const deleted = await prismaClient?.verificationToken?.deleteMany({
+    where: {
+      id: verificationToken.id,
+    },
+  });
+  if (!deleted?.count) {
+    return { success: false, error: "Invalid or expired token" };
+  }
+
+  return { success: true, data: verification.data };
+}